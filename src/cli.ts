@@ -1,18 +1,30 @@
 #!/usr/bin/env node
 import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
-import { stat } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { stat, writeFile } from "node:fs/promises";
+import path from "node:path";
 import { createValidator } from "./index";
+import { decodeText, encodeText } from "./loaders/encoding";
+import { GitSource } from "./loaders/git-source";
+import { readSourceFile, TextFormatter } from "./formatters/text-formatter";
+import { Baseline } from "./utils/baseline";
+import { unifiedDiff } from "./utils/diff";
+import type { Severity, ValidatorOptions } from "./types";
+import type { HelixValidator } from "./validator";
 
 async function main() {
-  const argv = await yargs(hideBin(process.argv))
+  const args = hideBin(process.argv);
+  if (args[0] === "rulesets") {
+    await listRulesets(args.slice(1));
+    return;
+  }
+
+  const argv = await yargs(args)
     .scriptName("helix-validate")
     .usage("$0 <path> [options]")
-    .positional("path", {
-      type: "string",
-      describe: "Path to Helix config (JSON)",
-      demandOption: true
-    })
+    .usage("$0 rulesets list [--rulesets-file <file>]")
+    .demandCommand(1, "Specify the path of a Helix config (JSON, YAML or TOML), or - to read stdin")
     .option("format", {
       choices: ["text", "json"] as const,
       default: "text",
@@ -22,48 +34,304 @@ async function main() {
       type: "string",
       describe: "Ruleset name (e.g., default, strict)"
     })
+    .option("rulesets-file", {
+      type: "string",
+      describe: "File declaring named rulesets (JSON, YAML or TOML)"
+    })
+    .option("policy-file", {
+      type: "string",
+      describe: "File declaring policies (JSON, YAML or TOML)"
+    })
+    .option("severity", {
+      type: "string",
+      array: true,
+      describe: "Override the severity of an issue rule, as <rule>=<error|warn|info|off>"
+    })
     .option("strict", {
       type: "boolean",
       default: false,
       describe: "Fail on warnings"
     })
+    .option("report-unused-suppressions", {
+      type: "boolean",
+      default: false,
+      describe: "Warn about helix-disable comments that suppress no issue"
+    })
+    .option("jsonc", {
+      type: "boolean",
+      default: false,
+      describe: "Allow comments and trailing commas in .json files"
+    })
+    .option("search-path", {
+      type: "string",
+      array: true,
+      describe: "Directory searched for configs referenced by extends"
+    })
+    .option("interpolate-env", {
+      type: "boolean",
+      default: false,
+      describe: "Expand ${VAR} placeholders in config values from the environment"
+    })
+    .option("schema", {
+      type: "string",
+      describe: "JSON Schema (draft 2020-12) file applied to the whole config"
+    })
+    .option("rule-schema", {
+      type: "string",
+      array: true,
+      describe: "JSON Schema file applied to one rule's value, as <rule>=<file>"
+    })
+    .option("rev", {
+      type: "string",
+      describe: "Validate the file as committed at this git revision"
+    })
+    .option("staged", {
+      type: "boolean",
+      describe: "Validate the file as staged in the git index"
+    })
+    .conflicts("rev", "staged")
+    .option("stdin-filename", {
+      type: "string",
+      describe: "Name used for stdin input in reports and to detect its format"
+    })
+    .option("max-file-size", {
+      type: "number",
+      describe: "Maximum config size in bytes"
+    })
+    .option("max-depth", {
+      type: "number",
+      describe: "Maximum nesting depth of objects and arrays"
+    })
+    .option("max-keys", {
+      type: "number",
+      describe: "Maximum total number of keys in a config"
+    })
+    .option("max-string-length", {
+      type: "number",
+      describe: "Maximum length of a string value or key"
+    })
+    .option("baseline", {
+      type: "string",
+      describe: "Baseline file of known issues; only new issues are reported"
+    })
+    .option("write-baseline", {
+      type: "string",
+      describe: "Record the config's current issues in a baseline file"
+    })
+    .conflicts("baseline", "write-baseline")
+    .option("fix", {
+      type: "boolean",
+      describe: "Apply automatic fixes to the file and report the remaining issues"
+    })
+    .option("fix-dry-run", {
+      type: "boolean",
+      describe: "Print the automatic fixes as a unified diff without writing the file"
+    })
+    .conflicts("fix", "fix-dry-run")
+    .option("code-frame", {
+      type: "boolean",
+      default: false,
+      describe: "Show source excerpts beneath issues (text format)"
+    })
     .help()
     .parse();
 
-  const filePath = argv.path as string;
+  // The config path is the first positional argument
+  const filePath = String(argv._[0]);
+  const fromStdin = filePath === "-";
+  const fromGit = argv.rev !== undefined || argv.staged;
 
-  // Early validation: check if file exists before creating validator
-  try {
-    const stats = await stat(filePath);
-    if (!stats.isFile()) {
+  if (fromStdin && fromGit) {
+    // eslint-disable-next-line no-console
+    console.error("Error: --rev and --staged cannot be used with stdin");
+    process.exit(1);
+  }
+
+  const fixing = argv.fix || argv.fixDryRun;
+  if (fixing && (fromStdin || fromGit)) {
+    // eslint-disable-next-line no-console
+    console.error("Error: --fix and --fix-dry-run only apply to files in the working tree");
+    process.exit(1);
+  }
+
+  // Early validation: check if file exists before creating validator.
+  // Files read from git may no longer exist in the working tree.
+  if (!fromStdin && !fromGit) {
+    try {
+      const stats = await stat(filePath);
+      if (!stats.isFile()) {
+        // eslint-disable-next-line no-console
+        console.error(`Error: Path is not a file: ${filePath}`);
+        process.exit(1);
+      }
+    } catch (error) {
       // eslint-disable-next-line no-console
-      console.error(`Error: Path is not a file: ${filePath}`);
+      console.error(`Error: File not found: ${filePath}`);
       process.exit(1);
     }
-  } catch (error) {
-    // eslint-disable-next-line no-console
-    console.error(`Error: File not found: ${filePath}`);
-    process.exit(1);
   }
 
-  const validator = createValidator({
+  const ruleSchemas: Record<string, string> = {};
+  for (const entry of argv.ruleSchema ?? []) {
+    const separator = entry.indexOf("=");
+    if (separator <= 0) {
+      // eslint-disable-next-line no-console
+      console.error(`Error: --rule-schema expects <rule>=<file>, got: ${entry}`);
+      process.exit(1);
+    }
+    ruleSchemas[entry.slice(0, separator)] = entry.slice(separator + 1);
+  }
+
+  const severities: Record<string, Severity | "off"> = {};
+  for (const entry of argv.severity ?? []) {
+    const separator = entry.indexOf("=");
+    const level = entry.slice(separator + 1);
+    if (separator <= 0 || !["error", "warn", "info", "off"].includes(level)) {
+      // eslint-disable-next-line no-console
+      console.error(`Error: --severity expects <rule>=<error|warn|info|off>, got: ${entry}`);
+      process.exit(1);
+    }
+    severities[entry.slice(0, separator)] = level as Severity | "off";
+  }
+
+  const validator = createOrExit({
     format: argv.format,
     ruleset: argv.ruleset,
-    strict: argv.strict
+    rulesetsFile: argv.rulesetsFile,
+    policyFile: argv.policyFile,
+    severities,
+    strict: argv.strict,
+    reportUnusedSuppressions: argv.reportUnusedSuppressions,
+    baseline: argv.baseline,
+    jsonc: argv.jsonc,
+    searchPaths: argv.searchPath,
+    interpolateEnv: argv.interpolateEnv,
+    schema: argv.schema,
+    ruleSchemas,
+    limits: {
+      maxFileSize: argv.maxFileSize,
+      maxDepth: argv.maxDepth,
+      maxKeys: argv.maxKeys,
+      maxStringLength: argv.maxStringLength
+    }
   });
 
-  const result = await validator.validateFile(filePath);
+  // Validated content that code frames cannot re-read from disk, by label
+  const sources = new Map<string, string>();
+  let result;
+  if (fromStdin) {
+    const content = await readStdin();
+    sources.set(argv.stdinFilename ?? "<stdin>", decodeText(content, { fatal: false }).text);
+    result = await validator.validateText(content, { filename: argv.stdinFilename });
+  } else if (fromGit) {
+    const source = new GitSource({ rev: argv.rev, staged: argv.staged });
+    result = await validator.validateRevision(filePath, source);
+    if (argv.codeFrame) {
+      const content = await source.read(filePath).catch(() => undefined);
+      if (content) sources.set(source.label(filePath), decodeText(content, { fatal: false }).text);
+    }
+  } else if (fixing) {
+    const fix = await validator.fixFile(filePath);
+    // Issues are those of the fixed content
+    sources.set(filePath, fix.output);
+    if (argv.fixDryRun) {
+      process.stdout.write(unifiedDiff(fix.original, fix.output, `a/${filePath}`, `b/${filePath}`));
+    } else if (fix.output !== fix.original) {
+      await writeFile(filePath, encodeText(fix.output, fix.encoding, fix.bom));
+    }
+    // eslint-disable-next-line no-console
+    console.error(`${argv.fixDryRun ? "Would fix" : "Fixed"} ${fix.fixed.length} issues in ${filePath}`);
+    result = fix.result;
+  } else {
+    result = await validator.validateFile(filePath);
+  }
   
   // Optimize: avoid string concatenation for output
-  const output =
-    argv.format === "json"
-      ? JSON.stringify(result, null, 2)
-      : result.summary;
+  let output: string;
+  if (argv.format === "json") {
+    output = JSON.stringify(result, null, 2);
+  } else if (argv.codeFrame) {
+    output = new TextFormatter({
+      codeFrame: true,
+      useColors: Boolean(process.stdout.isTTY),
+      maxLineLength: Number.MAX_SAFE_INTEGER,
+      readSource: (file) => sources.get(file) ?? readSourceFile(file)
+    }).format(result);
+  } else {
+    output = result.summary;
+  }
   process.stdout.write(output + "\n");
 
+  if (argv.writeBaseline !== undefined) {
+    const baselineFile = argv.writeBaseline;
+    const baseline = existsSync(baselineFile) ? Baseline.read(baselineFile) : new Baseline({}, path.dirname(baselineFile));
+    baseline.update(fromStdin ? argv.stdinFilename ?? "<stdin>" : filePath, result.issues);
+    await baseline.write(baselineFile);
+    // eslint-disable-next-line no-console
+    console.error(`Recorded ${result.issues.length} issues in ${baselineFile}`);
+    return;
+  }
+
   if (!result.ok) process.exit(1);
 }
 
+/**
+ * `helix-validate rulesets list`: print the available rulesets with the
+ * checks they enable.
+ */
+async function listRulesets(args: string[]): Promise<void> {
+  const argv = await yargs(args)
+    .scriptName("helix-validate rulesets")
+    .usage("$0 list [options]")
+    .command("list", "List the available rulesets")
+    .demandCommand(1, "Specify a subcommand: list")
+    .strictCommands()
+    .option("rulesets-file", {
+      type: "string",
+      describe: "File declaring named rulesets (JSON, YAML or TOML)"
+    })
+    .help()
+    .parse();
+
+  const registry = createOrExit({ rulesetsFile: argv.rulesetsFile }).getRulesets();
+  const lines: string[] = [];
+  for (const definition of registry.getAll()) {
+    const bases = definition.extends === undefined ? [] : ([] as string[]).concat(definition.extends);
+    lines.push(definition.name + (bases.length > 0 ? ` (extends ${bases.join(", ")})` : ""));
+    if (definition.description) lines.push(`  ${definition.description}`);
+    try {
+      for (const [id, check] of registry.resolve(definition.name).checks) {
+        lines.push(`    ${check.severity.padEnd(5)} ${id}`);
+      }
+    } catch (error) {
+      lines.push(`  Error: ${(error as Error).message}`);
+    }
+  }
+  process.stdout.write(lines.join("\n") + "\n");
+}
+
+/**
+ * Create the validator, reporting invalid rulesets and rulesets files as
+ * usage errors.
+ */
+function createOrExit(options: ValidatorOptions): HelixValidator {
+  try {
+    return createValidator(options);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+async function readStdin(): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
 main().catch((error) => {
   // eslint-disable-next-line no-console
   console.error(error);
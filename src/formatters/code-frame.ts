@@ -0,0 +1,66 @@
+export interface CodeFrameLocation {
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+export interface CodeFrameOptions {
+  /** Lines of context shown above and below the highlighted line. */
+  contextLines?: number;
+  /** Optional styling hook for the gutter and the underline marker. */
+  colorize?: (text: string, part: "gutter" | "marker") => string;
+}
+
+/**
+ * Render source lines around a location with line numbers and a caret
+ * underline, e.g.
+ *
+ *     2 |   "name": "demo",
+ *   > 3 |   "version": "1.0",
+ *       |              ^^^^^
+ *     4 |   "rules": {
+ *
+ * Ranges spanning several lines are underlined to the end of the first line.
+ * Returns an empty string when the line is outside the source.
+ */
+export function buildCodeFrame(
+  source: string,
+  location: CodeFrameLocation,
+  options: CodeFrameOptions = {}
+): string {
+  const lines = source.split(/\r?\n/);
+  const target = lines[location.line - 1];
+  if (target === undefined) return "";
+
+  const contextLines = options.contextLines ?? 2;
+  const colorize = options.colorize ?? ((text: string) => text);
+  const first = Math.max(1, location.line - contextLines);
+  const last = Math.min(lines.length, location.line + contextLines);
+  const gutterWidth = String(last).length;
+
+  const startColumn = Math.min(Math.max(location.column, 1), target.length + 1);
+  const sameLine = location.endLine === undefined || location.endLine === location.line;
+  const endColumn =
+    sameLine && location.endColumn !== undefined
+      ? Math.min(location.endColumn, target.length + 1)
+      : target.length + 1;
+  const width = Math.max(1, endColumn - startColumn);
+
+  const frame: string[] = [];
+  for (let lineNumber = first; lineNumber <= last; lineNumber++) {
+    const text = lines[lineNumber - 1] ?? "";
+    const isTarget = lineNumber === location.line;
+    const gutter = `${isTarget ? ">" : " "} ${String(lineNumber).padStart(gutterWidth)} |`;
+    frame.push(`${colorize(gutter, "gutter")}${text ? ` ${text}` : ""}`);
+
+    if (isTarget) {
+      // Keep tabs so the marker lines up with the source text
+      const indent = target.slice(0, startColumn - 1).replace(/[^\t]/g, " ");
+      const markerGutter = `  ${" ".repeat(gutterWidth)} |`;
+      frame.push(`${colorize(markerGutter, "gutter")} ${indent}${colorize("^".repeat(width), "marker")}`);
+    }
+  }
+
+  return frame.join("\n");
+}
@@ -29,9 +29,28 @@ export class JsonFormatter {
     const output: Record<string, unknown> = {
       ok: result.ok,
       summary: this.buildSummary(result.issues),
-      issues: result.issues
+      issues: result.issues.map((issue) => JsonFormatter.formatIssue(issue))
     };
 
+    if (result.documents) {
+      output.documents = result.documents.map((document) => ({
+        index: document.index,
+        ok: document.ok,
+        issues: document.issues.map((issue) => JsonFormatter.formatIssue(issue))
+      }));
+    }
+
+    if (result.suppressed) {
+      output.suppressed = result.suppressed.map((issue) => ({
+        ...JsonFormatter.formatIssue(issue),
+        ...(issue.reason !== undefined ? { reason: issue.reason } : {})
+      }));
+    }
+
+    if (result.baselined) {
+      output.baselined = result.baselined.map((issue) => JsonFormatter.formatIssue(issue));
+    }
+
     if (this.includeTiming && result.elapsedMs > 0) {
       output.timing = {
         elapsedMs: result.elapsedMs,
@@ -136,12 +155,19 @@ export class JsonFormatter {
    * Format a single issue as JSON.
    */
   static formatIssue(issue: ValidationIssue): Record<string, unknown> {
-    return {
+    const formatted: Record<string, unknown> = {
       path: issue.path,
       message: issue.message,
       severity: issue.severity,
       rule: issue.rule
     };
+
+    // Source location fields are only present when known
+    for (const key of ["file", "line", "column", "endLine", "endColumn", "related", "document", "fix"] as const) {
+      if (issue[key] !== undefined) formatted[key] = issue[key];
+    }
+
+    return formatted;
   }
 }
 
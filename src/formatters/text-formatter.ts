@@ -1,10 +1,25 @@
+import { readFileSync } from "node:fs";
+import { decodeText } from "../loaders/encoding";
 import { ValidationIssue, ValidationResult } from "../types";
+import { formatLocation } from "../utils/source-locations";
+import { buildCodeFrame } from "./code-frame";
 
 export interface TextFormatterOptions {
   useColors?: boolean;
   showRule?: boolean;
   showPath?: boolean;
+  showLocation?: boolean;
   maxLineLength?: number;
+  /** Render source excerpts beneath issues that carry a location. */
+  codeFrame?: boolean;
+  /** Lines of context above and below the offending line (default 2). */
+  codeFrameLines?: number;
+  /**
+   * Source lookup for code frames, by issue file; defaults to reading the
+   * file from disk. Pass it for content validated from elsewhere, such as
+   * stdin or a git revision.
+   */
+  readSource?: (file: string) => string | undefined;
 }
 
 /**
@@ -15,7 +30,12 @@ export class TextFormatter {
   private useColors: boolean;
   private showRule: boolean;
   private showPath: boolean;
+  private showLocation: boolean;
   private maxLineLength: number;
+  private codeFrame: boolean;
+  private codeFrameLines: number;
+  private readSource: (file: string) => string | undefined;
+  private sources: Map<string, string | undefined> = new Map();
 
   private readonly colors = {
     error: "\x1b[31m", // red
@@ -31,7 +51,11 @@ export class TextFormatter {
     this.useColors = options.useColors ?? true;
     this.showRule = options.showRule ?? true;
     this.showPath = options.showPath ?? true;
+    this.showLocation = options.showLocation ?? true;
     this.maxLineLength = options.maxLineLength ?? 80;
+    this.codeFrame = options.codeFrame ?? false;
+    this.codeFrameLines = options.codeFrameLines ?? 2;
+    this.readSource = options.readSource ?? readSourceFile;
   }
 
   /**
@@ -39,6 +63,7 @@ export class TextFormatter {
    */
   format(result: ValidationResult): string {
     const lines: string[] = [];
+    this.sources.clear();
 
     // Header
     lines.push(this.formatHeader(result));
@@ -148,6 +173,15 @@ export class TextFormatter {
     const parts: string[] = [];
     const prefix = this.colorize(`  [${severity.toUpperCase()}]`, severity);
 
+    const location = this.showLocation ? formatLocation(issue) : undefined;
+    if (location) {
+      parts.push(`${location}:`);
+    }
+
+    if (issue.document !== undefined) {
+      parts.push(this.colorize(`[document ${issue.document}]`, "dim"));
+    }
+
     if (this.showPath && issue.path) {
       parts.push(this.colorize(issue.path, "dim"));
     }
@@ -158,14 +192,47 @@ export class TextFormatter {
 
     parts.push(issue.message);
 
-    const line = `${prefix} ${parts.join(" ")}`;
+    let line = `${prefix} ${parts.join(" ")}`;
     
     // Truncate if too long
     if (line.length > this.maxLineLength) {
-      return line.substring(0, this.maxLineLength - 3) + "...";
+      line = line.substring(0, this.maxLineLength - 3) + "...";
+    }
+
+    const frame = this.formatCodeFrame(issue, severity);
+    return frame ? `${line}\n${frame}` : line;
+  }
+
+  /**
+   * Render the source excerpt for an issue, if enabled and available.
+   */
+  private formatCodeFrame(issue: ValidationIssue, severity: "error" | "warn" | "info"): string {
+    if (!this.codeFrame || issue.file === undefined || issue.line === undefined) return "";
+
+    if (!this.sources.has(issue.file)) {
+      this.sources.set(issue.file, this.readSource(issue.file));
     }
+    const source = this.sources.get(issue.file);
+    if (source === undefined) return "";
+
+    const frame = buildCodeFrame(
+      source,
+      {
+        line: issue.line,
+        column: issue.column ?? 1,
+        endLine: issue.endLine,
+        endColumn: issue.endColumn
+      },
+      {
+        contextLines: this.codeFrameLines,
+        colorize: (text, part) => this.colorize(text, part === "marker" ? severity : "dim")
+      }
+    );
 
-    return line;
+    return frame
+      .split("\n")
+      .map((frameLine) => `    ${frameLine}`)
+      .join("\n");
   }
 
   /**
@@ -177,3 +244,14 @@ export class TextFormatter {
   }
 }
 
+/**
+ * Read a config for code frames, decoded as for validation so that
+ * columns match (a byte order mark is removed).
+ */
+export function readSourceFile(file: string): string | undefined {
+  try {
+    return decodeText(readFileSync(file), { fatal: false }).text;
+  } catch {
+    return undefined;
+  }
+}
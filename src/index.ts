@@ -1,9 +1,60 @@
 import { HelixValidator } from "./validator";
-import { ValidatorOptions, ValidationResult, HelixConfig } from "./types";
+import {
+  ValidatorOptions,
+  ValidationResult,
+  HelixConfig,
+  ConfigLoader,
+  ParsedConfig,
+  ValidateTextOptions,
+  LoadLimits,
+  SourceComment,
+  SuppressedIssue,
+  IssueFix,
+  FixEdit,
+  FixResult
+} from "./types";
 
 export function createValidator(options: ValidatorOptions = {}): HelixValidator {
   return new HelixValidator(options);
 }
 
-export type { ValidatorOptions, ValidationResult, HelixConfig };
+export { LoaderRegistry } from "./loaders/loader-registry";
+export { JsonLoader } from "./loaders/json-loader";
+export { YamlLoader } from "./loaders/yaml-loader";
+export { TomlLoader } from "./loaders/toml-loader";
+export { GitSource } from "./loaders/git-source";
+export { decodeText, encodeText, InvalidEncodingError } from "./loaders/encoding";
+export type { TextEncoding } from "./loaders/encoding";
+export { validateJsonSchema } from "./rules/json-schema";
+export type { JsonSchema } from "./rules/json-schema";
+export { RULE_CATALOG } from "./rules/rule-catalog";
+export { BUILTIN_RULESETS, RULESET_CHECKS } from "./rules/ruleset";
+export type { CheckSetting, ResolvedRuleset, RulesetCheck, RulesetDefinition } from "./rules/ruleset";
+export { parseRulesetsFile, RulesetRegistry } from "./rules/ruleset-registry";
+export { compilePolicies, evaluatePolicies, parsePolicyFile } from "./rules/policy";
+export type { CompiledPolicy, PolicyComparisons, PolicyCondition, PolicyDefinition } from "./rules/policy";
+export type { RuleCatalog, RuleDefinition } from "./rules/rule-catalog";
+export { BUILTIN_DEPRECATIONS, compareVersions, DeprecationRegistry } from "./rules/deprecations";
+export type { DeprecationEntry, DeprecationIssue } from "./rules/deprecations";
+export { checkMetadata, METADATA_CONTRACT_CHECKS } from "./rules/metadata";
+export type { MetadataContract } from "./rules/metadata";
+export type { GitSourceOptions } from "./loaders/git-source";
+export { DEFAULT_LIMITS, LimitExceededError } from "./loaders/limits";
+export { Baseline, issueFingerprint } from "./utils/baseline";
+export type { BaselineEntry } from "./utils/baseline";
+export { unifiedDiff } from "./utils/diff";
+export type {
+  ValidatorOptions,
+  ValidationResult,
+  HelixConfig,
+  ConfigLoader,
+  ParsedConfig,
+  ValidateTextOptions,
+  LoadLimits,
+  SourceComment,
+  SuppressedIssue,
+  IssueFix,
+  FixEdit,
+  FixResult
+};
 
@@ -0,0 +1,183 @@
+import path from "node:path";
+import { LocationMap, ParsedConfig, ValidationIssue } from "../types";
+import { ConfigResolver } from "../utils/config-resolver";
+import { attachLocations, childPath, forgetLocations } from "../utils/source-locations";
+import { isObject } from "../utils/values";
+
+/** Top-level sections merged key by key instead of being replaced. */
+const MERGED_SECTIONS = new Set(["rules", "metadata"]);
+
+export interface ExtendsContext {
+  resolver: ConfigResolver;
+  /** Load and parse a base config file. */
+  load(filePath: string): Promise<ParsedConfig>;
+}
+
+/**
+ * Apply the `extends` chain of a parsed config.
+ *
+ * Precedence, from lowest to highest: the extended configs in list order
+ * (each with its own bases applied), then the extending config. Within
+ * `rules` and `metadata`, nested objects are merged key by key; any other
+ * value, including arrays, replaces the inherited one. Other top-level
+ * fields are replaced as a whole.
+ *
+ * Nodes inherited from a base keep that file in their location, and parse
+ * issues of base files already carry their file. Problems with the chain
+ * itself are reported as `extends/*` issues on the extending entry.
+ */
+export async function resolveExtends(
+  filePath: string,
+  parsed: ParsedConfig,
+  context: ExtendsContext
+): Promise<ParsedConfig> {
+  return extend(path.resolve(filePath), parsed, context, []);
+}
+
+async function extend(
+  file: string,
+  parsed: ParsedConfig,
+  context: ExtendsContext,
+  chain: string[]
+): Promise<ParsedConfig> {
+  const specs = parsed.config.extends;
+  if (specs === undefined) return parsed;
+
+  const issues: ValidationIssue[] = [];
+  let merged: ParsedConfig = { config: {}, format: parsed.format, locations: new Map(), issues: [] };
+
+  if (typeof specs !== "string" && !Array.isArray(specs)) {
+    issues.push({
+      path: "extends",
+      message: "extends must be a file path or a list of file paths.",
+      severity: "error",
+      rule: "extends/invalid"
+    });
+  }
+
+  const entries: unknown[] = typeof specs === "string" ? [specs] : Array.isArray(specs) ? specs : [];
+  const ancestors = [...chain, file];
+
+  for (const [index, spec] of entries.entries()) {
+    const entryPath = Array.isArray(specs) ? childPath("extends", index) : "extends";
+    if (typeof spec !== "string") {
+      issues.push({
+        path: entryPath,
+        message: "extends entries must be file paths.",
+        severity: "error",
+        rule: "extends/invalid"
+      });
+      continue;
+    }
+
+    const target = context.resolver.resolveFrom(path.dirname(file), spec);
+    if (!target) {
+      issues.push({
+        path: entryPath,
+        message: `Cannot resolve extended config "${spec}".`,
+        severity: "error",
+        rule: "extends/not-found"
+      });
+      continue;
+    }
+
+    if (ancestors.includes(target)) {
+      const cycle = [...ancestors.slice(ancestors.indexOf(target)), target];
+      issues.push({
+        path: entryPath,
+        message: `Circular extends: ${cycle.join(" -> ")}.`,
+        severity: "error",
+        rule: "extends/cycle"
+      });
+      continue;
+    }
+
+    let base: ParsedConfig;
+    try {
+      base = await context.load(target);
+    } catch (error) {
+      issues.push({
+        path: entryPath,
+        message: `Failed to load extended config "${spec}": ${(error as Error).message}`,
+        severity: "error",
+        rule: "extends/load-error"
+      });
+      continue;
+    }
+
+    merged = merge(merged, inherit(await extend(target, base, context, ancestors), target));
+  }
+
+  const result = merge(merged, parsed);
+  result.issues = [...(result.issues ?? []), ...issues];
+  return result;
+}
+
+/**
+ * Attribute a resolved base config to its file before it is merged into
+ * the extending config.
+ */
+function inherit(parsed: ParsedConfig, file: string): ParsedConfig {
+  const locations: LocationMap = new Map();
+  for (const [nodePath, location] of parsed.locations ?? []) {
+    locations.set(nodePath, location.file ? location : { ...location, file });
+  }
+  forgetLocations(locations, "extends");
+  return {
+    ...parsed,
+    locations,
+    issues: attachLocations(parsed.issues ?? [], parsed.locations, file)
+  };
+}
+
+/**
+ * Merge an overriding config onto a base, following the precedence
+ * documented on {@link resolveExtends}.
+ */
+function merge(base: ParsedConfig, override: ParsedConfig): ParsedConfig {
+  const config: Record<string, unknown> = { ...base.config };
+  const locations: LocationMap = new Map(base.locations);
+
+  for (const [key, value] of Object.entries(override.config)) {
+    if (key === "extends") continue;
+    const current = Object.prototype.hasOwnProperty.call(config, key) ? config[key] : undefined;
+    setOwn(config, key, mergeValue(current, value, key, MERGED_SECTIONS.has(key), locations));
+  }
+
+  // The override wins for every node it defines
+  for (const [nodePath, location] of override.locations ?? []) {
+    locations.set(nodePath, location);
+  }
+
+  return {
+    config,
+    format: override.format,
+    locations,
+    issues: [...(base.issues ?? []), ...(override.issues ?? [])]
+  };
+}
+
+function mergeValue(
+  base: unknown,
+  override: unknown,
+  nodePath: string,
+  deep: boolean,
+  locations: LocationMap
+): unknown {
+  if (!deep || !isObject(base) || !isObject(override)) {
+    forgetLocations(locations, nodePath);
+    return override;
+  }
+
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const current = Object.prototype.hasOwnProperty.call(result, key) ? result[key] : undefined;
+    setOwn(result, key, mergeValue(current, value, childPath(nodePath, key), true, locations));
+  }
+  return result;
+}
+
+function setOwn(target: Record<string, unknown>, key: string, value: unknown): void {
+  // Define rather than assign so "__proto__" stays an own property
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
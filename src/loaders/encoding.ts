@@ -0,0 +1,147 @@
+import { LineIndex } from "../utils/source-locations";
+
+/**
+ * Raised when config bytes are not valid in their detected encoding.
+ * Carries the 0-based byte offset and the 1-based position of the
+ * offending sequence in the text decoded so far.
+ */
+export class InvalidEncodingError extends Error {
+  readonly byteOffset: number;
+  readonly line: number;
+  readonly column: number;
+
+  constructor(reason: string, byteOffset: number, line: number, column: number) {
+    super(`Invalid encoding at byte offset ${byteOffset} (line ${line}, column ${column}): ${reason}`);
+    this.name = "InvalidEncodingError";
+    this.byteOffset = byteOffset;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export type TextEncoding = "utf-8" | "utf-16le" | "utf-16be";
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncoding;
+  /** Whether the content started with a byte order mark, which is removed. */
+  bom: boolean;
+}
+
+export interface DecodeOptions {
+  /** Throw on invalid byte sequences instead of replacing them with U+FFFD (default true). */
+  fatal?: boolean;
+}
+
+/**
+ * Decode config bytes. UTF-16 is recognized by its byte order mark;
+ * anything else is decoded as UTF-8, with an optional BOM.
+ * @throws InvalidEncodingError on invalid sequences when `fatal` is set
+ */
+export function decodeText(bytes: Uint8Array, options: DecodeOptions = {}): DecodedText {
+  const fatal = options.fatal ?? true;
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { text: decodeUtf16(buffer.subarray(2), "utf-16le", fatal), encoding: "utf-16le", bom: true };
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return { text: decodeUtf16(buffer.subarray(2), "utf-16be", fatal), encoding: "utf-16be", bom: true };
+  }
+
+  const bom = buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf;
+  const body = bom ? buffer.subarray(3) : buffer;
+  if (fatal) {
+    const invalid = findInvalidUtf8(body);
+    if (invalid) {
+      const prefix = body.subarray(0, invalid.offset).toString("utf8");
+      const { line, column } = new LineIndex(prefix).position(prefix.length);
+      throw new InvalidEncodingError(invalid.reason, invalid.offset + (bom ? 3 : 0), line, column);
+    }
+  }
+  return { text: body.toString("utf8"), encoding: "utf-8", bom };
+}
+
+/**
+ * Encode text for writing back to a config, in the encoding it was read
+ * with and with its byte order mark, if it had one.
+ */
+export function encodeText(text: string, encoding: TextEncoding, bom: boolean): Buffer {
+  const content = bom ? `\ufeff${text}` : text;
+  if (encoding === "utf-8") return Buffer.from(content, "utf8");
+  const bytes = Buffer.from(content, "utf16le");
+  return encoding === "utf-16be" ? bytes.swap16() : bytes;
+}
+
+/**
+ * Remove a leading byte order mark from already decoded text.
+ */
+export function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+function decodeUtf16(body: Buffer, encoding: "utf-16le" | "utf-16be", fatal: boolean): string {
+  if (body.length % 2 !== 0 && fatal) {
+    const prefix = decodeUtf16(body.subarray(0, body.length - 1), encoding, false);
+    const { line, column } = new LineIndex(prefix).position(prefix.length);
+    throw new InvalidEncodingError(`Truncated ${encoding.toUpperCase()} code unit`, body.length + 1, line, column);
+  }
+  const even = body.subarray(0, body.length - (body.length % 2));
+  // swap16 works in place, so byte-swap a copy
+  return encoding === "utf-16le" ? even.toString("utf16le") : Buffer.from(even).swap16().toString("utf16le");
+}
+
+/**
+ * Find the first invalid UTF-8 sequence: stray or missing continuation
+ * bytes, truncated or overlong sequences, surrogates and code points
+ * above U+10FFFF.
+ */
+function findInvalidUtf8(bytes: Uint8Array): { offset: number; reason: string } | undefined {
+  let i = 0;
+  while (i < bytes.length) {
+    const lead = bytes[i] as number;
+    if (lead < 0x80) {
+      i++;
+      continue;
+    }
+
+    let length: number;
+    let min: number;
+    if (lead >= 0xc2 && lead <= 0xdf) {
+      length = 2;
+      min = 0x80;
+    } else if (lead >= 0xe0 && lead <= 0xef) {
+      length = 3;
+      min = 0x800;
+    } else if (lead >= 0xf0 && lead <= 0xf4) {
+      length = 4;
+      min = 0x10000;
+    } else if (lead >= 0x80 && lead <= 0xbf) {
+      return { offset: i, reason: `Unexpected continuation byte 0x${hex(lead)}` };
+    } else {
+      return { offset: i, reason: `Invalid UTF-8 lead byte 0x${hex(lead)}` };
+    }
+
+    let codePoint = lead & (0xff >> (length + 1));
+    for (let k = 1; k < length; k++) {
+      const next = bytes[i + k];
+      if (next === undefined) return { offset: i, reason: "Truncated UTF-8 sequence" };
+      if ((next & 0xc0) !== 0x80) {
+        return { offset: i, reason: `Invalid UTF-8 continuation byte 0x${hex(next)}` };
+      }
+      codePoint = (codePoint << 6) | (next & 0x3f);
+    }
+
+    if (codePoint < min) return { offset: i, reason: "Overlong UTF-8 sequence" };
+    if (codePoint >= 0xd800 && codePoint <= 0xdfff) {
+      return { offset: i, reason: "UTF-8 encoded surrogate" };
+    }
+    if (codePoint > 0x10ffff) return { offset: i, reason: "Code point above U+10FFFF" };
+    i += length;
+  }
+  return undefined;
+}
+
+function hex(byte: number): string {
+  return byte.toString(16).toUpperCase().padStart(2, "0");
+}
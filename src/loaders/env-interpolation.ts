@@ -0,0 +1,130 @@
+import { HelixConfig, LocationMap, ParsedConfig, SourceNodeLocation, ValidationIssue } from "../types";
+import { childPath } from "../utils/source-locations";
+
+export type EnvMap = Record<string, string | undefined>;
+
+/**
+ * `${NAME}`, `${NAME:-default}` and `${NAME:?message}`; `$${...}` escapes
+ * a literal placeholder.
+ */
+const PLACEHOLDER = /\$?\$\{([A-Za-z_][A-Za-z0-9_]*)(?:(:-|:\?)([^}]*))?\}/g;
+
+/**
+ * Expand environment placeholders in the string values of a config.
+ *
+ * - `${NAME}` expands to the variable, or to an empty string with an
+ *   `env/unset-variable` warning when it is not set.
+ * - `${NAME:-default}` uses the default when the variable is unset or empty.
+ * - `${NAME:?message}` reports an `env/unset-variable` error when the
+ *   variable is unset or empty and keeps the placeholder as written.
+ *
+ * Issues point at the placeholder when its position in the source can be
+ * recovered, otherwise at the value containing it. Keys are not expanded.
+ */
+export function interpolateEnv(parsed: ParsedConfig, env: EnvMap = process.env): ParsedConfig {
+  const issues: ValidationIssue[] = [];
+  const config = expand(parsed.config, "", env, parsed.locations, issues) as HelixConfig;
+  return { ...parsed, config, issues: [...(parsed.issues ?? []), ...issues] };
+}
+
+/**
+ * Whether source text contains a placeholder, escaped or not.
+ */
+export function containsPlaceholder(text: string): boolean {
+  return text.search(PLACEHOLDER) !== -1;
+}
+
+function expand(
+  value: unknown,
+  path: string,
+  env: EnvMap,
+  locations: LocationMap | undefined,
+  issues: ValidationIssue[]
+): unknown {
+  if (typeof value === "string") {
+    return expandString(value, path, env, locations, issues);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => expand(item, childPath(path, index), env, locations, issues));
+  }
+  if (typeof value === "object" && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      // Define rather than assign so "__proto__" stays an own property
+      Object.defineProperty(result, key, {
+        value: expand(item, childPath(path, key), env, locations, issues),
+        enumerable: true,
+        writable: true,
+        configurable: true
+      });
+    }
+    return result;
+  }
+  return value;
+}
+
+function expandString(
+  value: string,
+  path: string,
+  env: EnvMap,
+  locations: LocationMap | undefined,
+  issues: ValidationIssue[]
+): string {
+  if (!value.includes("${")) return value;
+
+  const replace = (
+    match: string,
+    name: string,
+    operator: string | undefined,
+    operand: string | undefined,
+    index: number
+  ): string => {
+    if (match.startsWith("$$")) return match.slice(1);
+
+    const current = env[name];
+    if (operator === ":-") return current ? current : operand ?? "";
+    if (current !== undefined && (operator !== ":?" || current !== "")) return current;
+
+    const required = operator === ":?";
+    issues.push({
+      path,
+      message: required
+        ? `Required environment variable "${name}" is not set${operand ? `: ${operand}` : "."}`
+        : `Environment variable "${name}" is not set; it expands to an empty string.`,
+      severity: required ? "error" : "warn",
+      rule: "env/unset-variable",
+      ...placeholderRange(value, index, match.length, locations?.get(path))
+    });
+    return required ? match : "";
+  };
+
+  return value.replace(PLACEHOLDER, replace);
+}
+
+/**
+ * Locate a placeholder inside a single-line value whose source text maps
+ * one-to-one onto the string: a plain scalar, or a quoted one without
+ * escapes.
+ */
+function placeholderRange(
+  value: string,
+  index: number,
+  length: number,
+  location: SourceNodeLocation | undefined
+): Partial<ValidationIssue> {
+  if (!location) return {};
+  const range = location.value;
+  if (range.line !== range.endLine) return {};
+
+  const padding = range.endOffset - range.offset - value.length;
+  if (padding !== 0 && padding !== 2) return {};
+
+  const column = range.column + padding / 2 + index;
+  return {
+    ...(location.file !== undefined ? { file: location.file } : {}),
+    line: range.line,
+    column,
+    endLine: range.line,
+    endColumn: column + length
+  };
+}
@@ -0,0 +1,88 @@
+import { execFile } from "node:child_process";
+import path from "node:path";
+import { promisify } from "node:util";
+import { checkFileSize, DEFAULT_LIMITS } from "./limits";
+
+const execFileAsync = promisify(execFile);
+
+export interface GitSourceOptions {
+  /** Revision to read files at, e.g. `HEAD~1`. */
+  rev?: string;
+  /** Read files from the index (staging area) instead of a revision. */
+  staged?: boolean;
+  /** Directory git runs in; relative paths are resolved from it (default `process.cwd()`). */
+  cwd?: string;
+}
+
+/**
+ * Reads config files as committed at a revision, or as staged in the
+ * index, through the local `git` executable.
+ */
+export class GitSource {
+  /** Revision name used in labels: the revision, or `staged` for the index. */
+  readonly revision: string;
+  private readonly rev: string;
+  private readonly cwd: string;
+
+  constructor(options: GitSourceOptions) {
+    if (options.staged && options.rev !== undefined) {
+      throw new Error("A git source reads either a revision or the index, not both");
+    }
+    if (!options.staged && !options.rev) {
+      throw new Error("A git source needs a revision or the staged option");
+    }
+    // An empty revision addresses the index: `:path`
+    this.rev = options.staged ? "" : (options.rev as string);
+    this.revision = options.staged ? "staged" : (options.rev as string);
+    this.cwd = path.resolve(options.cwd ?? process.cwd());
+  }
+
+  /**
+   * Label identifying a file at this source in reports, e.g.
+   * `HEAD~1:config/app.json` or `staged:config/app.json`.
+   */
+  label(filePath: string): string {
+    return `${this.revision}:${filePath}`;
+  }
+
+  /**
+   * Absolute working tree path of a file, resolved from the directory git
+   * runs in.
+   */
+  resolve(filePath: string): string {
+    return path.resolve(this.cwd, filePath);
+  }
+
+  /**
+   * Read the raw bytes of a file.
+   * @param maxSize Refuse blobs larger than this many bytes
+   * @throws LimitExceededError if the blob is too large, Error if git
+   * fails or the file does not exist at the revision
+   */
+  async read(filePath: string, maxSize: number = DEFAULT_LIMITS.maxFileSize): Promise<Buffer> {
+    const object = this.objectName(filePath);
+    // Check the size first so oversized blobs are never read into memory
+    const size = Number((await this.git(["cat-file", "-s", object])).toString().trim());
+    checkFileSize(size, maxSize);
+    return this.git(["cat-file", "blob", object], size + 1);
+  }
+
+  /**
+   * Git object name of a file: `<rev>:./<path>`. The `./` makes git
+   * resolve the path from its working directory, not the repository root.
+   */
+  private objectName(filePath: string): string {
+    const relative = path.relative(this.cwd, this.resolve(filePath)).split(path.sep).join("/");
+    return `${this.rev}:./${relative}`;
+  }
+
+  private async git(args: string[], maxBuffer = 64 * 1024): Promise<Buffer> {
+    try {
+      const { stdout } = await execFileAsync("git", args, { cwd: this.cwd, encoding: "buffer", maxBuffer });
+      return stdout;
+    } catch (error) {
+      const stderr = (error as { stderr?: Buffer }).stderr?.toString().trim();
+      throw new Error(stderr || `git ${args[0]} failed: ${(error as Error).message}`);
+    }
+  }
+}
@@ -1,24 +1,52 @@
 import { readFile, stat } from "node:fs/promises";
 import path from "node:path";
-import { HelixConfig } from "../types";
+import { ConfigLoader, HelixConfig, LoadLimits, ParsedConfig, SourceComment, ValidationIssue } from "../types";
 import { Logger } from "../utils/logger";
+import { decodeText, stripBom } from "./encoding";
+import { checkFileSize, resolveLimits } from "./limits";
+import { parseJson } from "./json-parser";
+import { stripJsonc } from "./jsonc";
 
 export interface LoaderOptions {
   logger?: Logger;
+  /** Reject invalid byte sequences when loading files (default true). */
   validateEncoding?: boolean;
+  /**
+   * Accept comments and trailing commas in `.json` files too.
+   * `.jsonc` files are always parsed in JSONC mode.
+   */
+  jsonc?: boolean;
+  /**
+   * Report syntax errors as `parse/*` issues and keep the values that
+   * could be parsed, instead of failing on the first error (default true).
+   */
+  recover?: boolean;
+  /**
+   * Limits checked while loading: the file size, and the nesting depth
+   * the parser accepts. The validator checks the remaining limits.
+   */
+  limits?: LoadLimits;
 }
 
 /**
  * JSON configuration loader with support for file validation,
  * encoding detection, and error recovery.
  */
-export class JsonLoader {
+export class JsonLoader implements ConfigLoader {
+  readonly format = "json";
+  readonly extensions = [".json", ".jsonc"];
   private logger: Logger;
+  private limits: Required<LoadLimits>;
   private validateEncoding: boolean;
+  private jsonc: boolean;
+  private recover: boolean;
 
   constructor(options: LoaderOptions = {}) {
     this.logger = options.logger ?? new Logger({ level: "info" });
+    this.limits = resolveLimits(options.limits);
     this.validateEncoding = options.validateEncoding ?? true;
+    this.jsonc = options.jsonc ?? false;
+    this.recover = options.recover ?? true;
   }
 
   /**
@@ -37,36 +65,11 @@ export class JsonLoader {
       if (!stats.isFile()) {
         throw new Error(`Path is not a file: ${resolved}`);
       }
+      checkFileSize(stats.size, this.limits.maxFileSize);
 
-      // Read file with UTF-8 encoding
-      const content = await readFile(resolved, "utf8");
-      
-      // Validate encoding if enabled
-      if (this.validateEncoding) {
-        this.validateUtf8(content);
-      }
-
-      // Parse JSON with detailed error handling
-      let config: HelixConfig;
-      try {
-        config = JSON.parse(content) as HelixConfig;
-      } catch (parseError) {
-        const error = parseError as Error;
-        const match = error.message.match(/position (\d+)/);
-        if (match) {
-          const position = parseInt(match[1], 10);
-          const lines = content.substring(0, position).split("\n");
-          const line = lines.length;
-          const column = lines[lines.length - 1].length + 1;
-          throw new Error(
-            `JSON parse error at line ${line}, column ${column}: ${error.message}`
-          );
-        }
-        throw error;
-      }
-
-      // Validate basic structure
-      this.validateStructure(config);
+      // Read raw bytes so BOMs and invalid sequences can be detected
+      const { text } = decodeText(await readFile(resolved), { fatal: this.validateEncoding });
+      const { config } = this.parse(text, resolved);
 
       this.logger.info(`Successfully loaded config: ${resolved}`);
       return config;
@@ -77,15 +80,54 @@ export class JsonLoader {
   }
 
   /**
-   * Validate UTF-8 encoding of the content.
+   * Parse JSON content into a config.
+   * @param content Decoded file content; a leading BOM is ignored
+   * @param filePath Path used in diagnostics
+   * @throws Error if the content is not an object, or on syntax errors
+   * when not recovering
+   */
+  parse(content: string, filePath: string): ParsedConfig {
+    this.logger.debug(`Parsing JSON config: ${filePath}`);
+    const text = stripBom(content);
+    const syntaxIssues: ValidationIssue[] = [];
+    const sink = this.recover ? syntaxIssues : undefined;
+    const jsonc = this.isJsoncMode(filePath);
+    const comments: SourceComment[] = [];
+
+    // JSONC preprocessing keeps positions intact for error reporting
+    const source = jsonc ? stripJsonc(text, sink, comments) : text;
+
+    // Parse JSON, recording node positions; syntax errors carry line and column
+    const { value, locations, issues } = parseJson(source, { recover: this.recover, maxDepth: this.limits.maxDepth });
+    syntaxIssues.push(...issues);
+
+    // A broken document may not yield an object; keep validating what was
+    // reported instead of failing on the structure as well
+    const hasSyntaxErrors = syntaxIssues.some((issue) => issue.rule !== "parse/duplicate-key");
+    const isObject = typeof value === "object" && value !== null && !Array.isArray(value);
+    if (!hasSyntaxErrors || isObject) {
+      this.validateStructure(value);
+    }
+    const config = (isObject ? value : {}) as HelixConfig;
+
+    return { config, format: this.format, locations, issues: syntaxIssues, ...(jsonc ? { comments } : {}) };
+  }
+
+  /**
+   * Whether comments and trailing commas are accepted for a file.
+   */
+  private isJsoncMode(filePath: string): boolean {
+    return this.jsonc || path.extname(filePath).toLowerCase() === ".jsonc";
+  }
+
+  /**
+   * Check whether content looks like a JSON object.
    */
-  private validateUtf8(content: string): void {
-    // Basic UTF-8 validation - check for invalid sequences
+  sniff(content: string): boolean {
     try {
-      // Try to encode/decode to ensure valid UTF-8
-      Buffer.from(content, "utf8").toString("utf8");
+      return stripJsonc(stripBom(content)).trimStart().startsWith("{");
     } catch {
-      throw new Error("File contains invalid UTF-8 encoding");
+      return false;
     }
   }
 
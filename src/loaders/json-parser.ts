@@ -0,0 +1,444 @@
+import { LocationMap, SourceNodeLocation, SourceRange, ValidationIssue } from "../types";
+import { childPath, forgetLocations, LineIndex } from "../utils/source-locations";
+import { DEFAULT_LIMITS, depthExceeded } from "./limits";
+import { duplicateKeyIssue, syntaxIssue } from "./parse-issues";
+
+/**
+ * Syntax error raised while parsing JSON, carrying a 1-based position.
+ */
+export class JsonSyntaxError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(reason: string, line: number, column: number) {
+    super(`JSON parse error at line ${line}, column ${column}: ${reason}`);
+    this.name = "JsonSyntaxError";
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export interface JsonParseResult {
+  /** The parsed value; undefined if recovery found no value at all. */
+  value: unknown;
+  locations: LocationMap;
+  /** Non-fatal problems such as duplicate keys, and recovered syntax errors. */
+  issues: ValidationIssue[];
+}
+
+export interface JsonParseOptions {
+  /**
+   * Keep parsing after syntax errors and report each one as a `parse/*`
+   * issue instead of throwing.
+   */
+  recover?: boolean;
+  /** Maximum nesting depth of objects and arrays (default 100). */
+  maxDepth?: number;
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t"
+};
+
+/** Characters of bare words: unquoted keys, misspelled literals. */
+const WORD = /[A-Za-z0-9_$-]/;
+
+/**
+ * Parse JSON text, recording the source range of every node.
+ * Semantics match `JSON.parse`: the last of duplicate keys wins, and
+ * each duplicate is reported as a `parse/duplicate-key` issue.
+ *
+ * When recovering, missing commas and colons are assumed, unquoted keys
+ * are accepted, unclosed strings end at the line break and unclosed
+ * brackets at the end of input or at the closing bracket of an enclosing
+ * container. Values that cannot be parsed are left out of the result.
+ * @throws JsonSyntaxError on malformed input, unless recovering
+ * @throws LimitExceededError if nesting exceeds `maxDepth`, even when recovering
+ */
+export function parseJson(content: string, options: JsonParseOptions = {}): JsonParseResult {
+  return new JsonParser(content, options.recover ?? false, options.maxDepth ?? DEFAULT_LIMITS.maxDepth).parse();
+}
+
+class JsonParser {
+  private pos = 0;
+  private readonly src: string;
+  private readonly recover: boolean;
+  private readonly maxDepth: number;
+  private readonly lines: LineIndex;
+  private readonly locations: LocationMap = new Map();
+  private readonly issues: ValidationIssue[] = [];
+  /** Closing brackets of the containers being parsed, innermost last. */
+  private readonly closers: string[] = [];
+
+  constructor(src: string, recover: boolean, maxDepth: number) {
+    this.src = src;
+    this.recover = recover;
+    this.maxDepth = maxDepth;
+    this.lines = new LineIndex(src);
+  }
+
+  parse(): JsonParseResult {
+    this.skipWhitespace();
+    let value: unknown;
+    if (this.atEnd()) this.error("", "parse/unexpected-token", "Unexpected end of input");
+    else value = this.parseValue("", undefined);
+
+    this.skipWhitespace();
+    if (!this.atEnd()) {
+      this.error("", "parse/unexpected-token", `Unexpected token ${this.describeCurrent()} after JSON value`);
+    }
+    return { value, locations: this.locations, issues: this.issues };
+  }
+
+  private parseValue(path: string, keyRange: SourceRange | undefined): unknown {
+    const start = this.pos;
+    let value: unknown;
+    const c = this.src[this.pos];
+
+    if (c === "{") value = this.parseObject(path);
+    else if (c === "[") value = this.parseArray(path);
+    else if (c === '"') value = this.parseString(path);
+    else if (c === "-" || (c !== undefined && c >= "0" && c <= "9")) value = this.parseNumber(path);
+    else if (this.startsWord("true")) value = this.parseLiteral("true", true);
+    else if (this.startsWord("false")) value = this.parseLiteral("false", false);
+    else if (this.startsWord("null")) value = this.parseLiteral("null", null);
+    else if (this.atEnd()) this.error(path, "parse/unexpected-token", "Unexpected end of input");
+    else this.skipUnexpected(path);
+
+    if (value === undefined) return undefined;
+    const location: SourceNodeLocation = { value: this.lines.range(start, this.pos) };
+    if (keyRange) location.key = keyRange;
+    this.locations.set(path, location);
+    return value;
+  }
+
+  private parseObject(path: string): Record<string, unknown> {
+    const start = this.pos;
+    const result: Record<string, unknown> = {};
+    const seen = new Map<string, SourceRange>();
+    this.checkDepth();
+    this.pos++; // "{"
+    this.skipWhitespace();
+
+    if (this.src[this.pos] === "}") {
+      this.pos++;
+      return result;
+    }
+
+    this.closers.push("}");
+    try {
+      for (;;) {
+        if (this.atEnd() || this.closesEnclosing()) {
+          this.error(path, "parse/unclosed", "Unterminated object", start);
+          return result;
+        }
+        if (this.src[this.pos] === "}") {
+          // Reached after skipping an unexpected token
+          this.pos++;
+          return result;
+        }
+
+        const keyStart = this.pos;
+        const key = this.parsePropertyName(path);
+        if (key === undefined) {
+          this.error(path, "parse/unexpected-token", `Expected property name but found ${this.describeCurrent()}`);
+          this.pos++;
+          this.skipWhitespace();
+          continue;
+        }
+        const keyRange = this.lines.range(keyStart, this.pos);
+        const memberPath = childPath(path, key);
+
+        this.skipWhitespace();
+        if (this.src[this.pos] === ":") {
+          this.pos++;
+          this.skipWhitespace();
+        } else {
+          this.error(memberPath, "parse/missing-colon", `Expected ':' after property name "${key}"`);
+        }
+
+        const first = seen.get(key);
+        if (first) {
+          this.issues.push(duplicateKeyIssue(memberPath, key, first, keyRange));
+          forgetLocations(this.locations, memberPath);
+        } else {
+          seen.set(key, keyRange);
+        }
+
+        const value = this.startsValue()
+          ? this.parseValue(memberPath, keyRange)
+          : this.error(memberPath, "parse/unexpected-token", `Expected a value for property "${key}"`);
+        if (value !== undefined) {
+          // Define rather than assign so "__proto__" stays an own property
+          Object.defineProperty(result, key, {
+            value,
+            enumerable: true,
+            writable: true,
+            configurable: true
+          });
+        }
+
+        this.skipWhitespace();
+        const c = this.src[this.pos];
+        if (c === ",") {
+          const comma = this.pos;
+          this.pos++;
+          this.skipWhitespace();
+          if (this.src[this.pos] === "}") {
+            this.error(path, "parse/trailing-comma", "Trailing comma in object", comma);
+            this.pos++;
+            return result;
+          }
+        } else if (c === "}") {
+          this.pos++;
+          return result;
+        } else if (!this.atEnd() && !this.closesEnclosing()) {
+          this.reportSeparator(path, "Expected ',' or '}' after property value");
+        }
+      }
+    } finally {
+      this.closers.pop();
+    }
+  }
+
+  /**
+   * Parse a quoted property name, or a bare one (reported) when recovering.
+   */
+  private parsePropertyName(path: string): string | undefined {
+    if (this.src[this.pos] === '"') return this.parseString(path);
+
+    const start = this.pos;
+    while (WORD.test(this.src[this.pos] ?? "")) this.pos++;
+    const name = this.src.slice(start, this.pos);
+    if (!name) return undefined;
+
+    this.pos = start;
+    this.error(childPath(path, name), "parse/unquoted-key", `Property name ${name} must be quoted`);
+    this.pos += name.length;
+    return name;
+  }
+
+  private parseArray(path: string): unknown[] {
+    const start = this.pos;
+    const result: unknown[] = [];
+    this.checkDepth();
+    this.pos++; // "["
+    this.skipWhitespace();
+
+    if (this.src[this.pos] === "]") {
+      this.pos++;
+      return result;
+    }
+
+    this.closers.push("]");
+    try {
+      for (;;) {
+        if (this.atEnd() || this.closesEnclosing()) {
+          this.error(path, "parse/unclosed", "Unterminated array", start);
+          return result;
+        }
+        if (this.src[this.pos] === "]") {
+          // Reached after skipping an unexpected token
+          this.pos++;
+          return result;
+        }
+        if (!this.startsValue()) {
+          this.skipUnexpected(path);
+          this.skipWhitespace();
+          continue;
+        }
+
+        const value = this.parseValue(childPath(path, result.length), undefined);
+        if (value !== undefined) result.push(value);
+
+        this.skipWhitespace();
+        const c = this.src[this.pos];
+        if (c === ",") {
+          const comma = this.pos;
+          this.pos++;
+          this.skipWhitespace();
+          if (this.src[this.pos] === "]") {
+            this.error(path, "parse/trailing-comma", "Trailing comma in array", comma);
+            this.pos++;
+            return result;
+          }
+        } else if (c === "]") {
+          this.pos++;
+          return result;
+        } else if (!this.atEnd() && !this.closesEnclosing()) {
+          this.reportSeparator(path, "Expected ',' or ']' after array element");
+        }
+      }
+    } finally {
+      this.closers.pop();
+    }
+  }
+
+  /**
+   * Handle a token where a separator was expected: a missing comma before
+   * the next member, or a stray character that is skipped.
+   */
+  private reportSeparator(path: string, expected: string): void {
+    const stray = !this.startsValue();
+    this.error(
+      path,
+      stray ? "parse/unexpected-token" : "parse/missing-comma",
+      `${expected} but found ${this.describeCurrent()}`
+    );
+    if (stray) {
+      this.pos++;
+      this.skipWhitespace();
+    }
+  }
+
+  private parseString(path: string): string {
+    const start = this.pos;
+    this.pos++; // opening quote
+    let result = "";
+    let chunkStart = this.pos;
+
+    for (;;) {
+      const c = this.src[this.pos];
+      if (c === undefined || c === "\n" || c === "\r") {
+        this.error(path, "parse/unclosed", "Unterminated string", start);
+        return result + this.src.slice(chunkStart, this.pos);
+      }
+      if (c === '"') {
+        result += this.src.slice(chunkStart, this.pos);
+        this.pos++;
+        return result;
+      }
+      if (c < " ") this.error(path, "parse/invalid-string", "Control character in string");
+      if (c !== "\\") {
+        this.pos++;
+        continue;
+      }
+
+      result += this.src.slice(chunkStart, this.pos);
+      const escape = this.src[this.pos + 1] ?? "";
+      const simple = ESCAPES[escape];
+      const hex = this.src.slice(this.pos + 2, this.pos + 6);
+      if (simple !== undefined) {
+        result += simple;
+        this.pos += 2;
+      } else if (escape === "u" && /^[0-9a-fA-F]{4}$/.test(hex)) {
+        result += String.fromCharCode(parseInt(hex, 16));
+        this.pos += 6;
+      } else {
+        this.error(
+          path,
+          "parse/invalid-string",
+          escape === "u" ? "Invalid unicode escape sequence" : `Invalid escape sequence '\\${escape}'`
+        );
+        // Keep the escaped character as written
+        this.pos++;
+      }
+      chunkStart = this.pos;
+    }
+  }
+
+  private parseNumber(path: string): number | undefined {
+    const start = this.pos;
+    const match = /^-?(0|[1-9][0-9]*)(\.[0-9]+)?([eE][-+]?[0-9]+)?/.exec(
+      this.src.slice(this.pos, this.pos + 512)
+    );
+    const end = start + (match?.[0].length ?? 0);
+    // Anything glued to the number, as in "01", "1." or "2px", makes it invalid
+    if (match && !/[0-9A-Za-z_.+-]/.test(this.src[end] ?? "")) {
+      this.pos = end;
+      return Number(match[0]);
+    }
+
+    let tokenEnd = end;
+    while (/[0-9A-Za-z_.+-]/.test(this.src[tokenEnd] ?? "")) tokenEnd++;
+    this.error(path, "parse/invalid-number", `Invalid number '${this.src.slice(start, tokenEnd)}'`);
+    this.pos = tokenEnd;
+    return undefined;
+  }
+
+  private parseLiteral<T>(text: string, value: T): T {
+    this.pos += text.length;
+    return value;
+  }
+
+  /**
+   * Report the token at the current position and skip it: a bare word
+   * (e.g. `True` or an unquoted string) or a single character.
+   */
+  private skipUnexpected(path: string): void {
+    let end = this.pos;
+    while (WORD.test(this.src[end] ?? "")) end++;
+    const word = this.src.slice(this.pos, end);
+    this.error(path, "parse/unexpected-token", `Unexpected token ${word ? `'${word}'` : this.describeCurrent()}`);
+    this.pos = Math.max(end, this.pos + 1);
+  }
+
+  private startsWord(word: string): boolean {
+    return this.src.startsWith(word, this.pos) && !WORD.test(this.src[this.pos + word.length] ?? "");
+  }
+
+  /**
+   * Whether the current token can start a value (or a property name).
+   */
+  private startsValue(): boolean {
+    const c = this.src[this.pos];
+    return c !== undefined && c !== "," && c !== "}" && c !== "]" && c !== ":";
+  }
+
+  /**
+   * Whether the current character is the closing bracket of a container
+   * enclosing the innermost one, which is then taken to be unclosed.
+   */
+  private closesEnclosing(): boolean {
+    const c = this.src[this.pos];
+    const own = this.closers[this.closers.length - 1];
+    return (c === "}" || c === "]") && c !== own && this.closers.includes(c);
+  }
+
+  /**
+   * Fail before entering a container nested deeper than allowed.
+   */
+  private checkDepth(): void {
+    if (this.closers.length >= this.maxDepth) {
+      const { line, column } = this.lines.position(this.pos);
+      throw depthExceeded(this.maxDepth, line, column);
+    }
+  }
+
+  private skipWhitespace(): void {
+    for (;;) {
+      const c = this.src[this.pos];
+      if (c === " " || c === "\t" || c === "\n" || c === "\r") this.pos++;
+      else return;
+    }
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.src.length;
+  }
+
+  private describeCurrent(): string {
+    const c = this.src[this.pos];
+    return c === undefined ? "end of input" : `'${c}'`;
+  }
+
+  /**
+   * Report a syntax error. It is thrown unless recovering, in which case
+   * it is recorded as an issue and the caller carries on.
+   */
+  private error(path: string, rule: string, reason: string, offset: number = this.pos): undefined {
+    const range = this.lines.range(offset, Math.min(offset + 1, this.src.length));
+    if (!this.recover) {
+      throw new JsonSyntaxError(reason, range.line, range.column);
+    }
+    this.issues.push(syntaxIssue(path, rule, reason, range));
+    return undefined;
+  }
+}
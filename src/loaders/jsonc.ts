@@ -0,0 +1,106 @@
+import { SourceComment, ValidationIssue } from "../types";
+import { LineIndex } from "../utils/source-locations";
+import { JsonSyntaxError } from "./json-parser";
+import { syntaxIssue } from "./parse-issues";
+
+/**
+ * JSONC (JSON with comments) preprocessing.
+ *
+ * Comments and trailing commas are replaced with spaces instead of being
+ * removed, so offsets, lines and columns in the result match the original
+ * source and parse errors still point at the right place.
+ */
+
+/**
+ * Convert JSONC content into plain JSON with identical positions.
+ * When `issues` is given, an unterminated block comment is reported there
+ * as `parse/unclosed` and blanked to the end of the content. When
+ * `comments` is given, the removed comments are recorded there.
+ * @throws JsonSyntaxError if a block comment is not terminated and no
+ * issue list is given
+ */
+export function stripJsonc(content: string, issues?: ValidationIssue[], comments?: SourceComment[]): string {
+  return blankTrailingCommas(blankComments(content, issues, comments));
+}
+
+function blankComments(
+  content: string,
+  issues: ValidationIssue[] | undefined,
+  comments: SourceComment[] | undefined
+): string {
+  const out = content.split("");
+  let inString = false;
+  let lines: LineIndex | undefined;
+  const record = (start: number, text: string): void => {
+    lines ??= new LineIndex(content);
+    comments?.push({ text, ...lines.position(start) });
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+
+    if (inString) {
+      if (c === "\\") i++;
+      else if (c === '"' || c === "\n") inString = false;
+      continue;
+    }
+
+    if (c === '"') {
+      inString = true;
+      continue;
+    }
+
+    if (c !== "/") continue;
+    const next = content[i + 1];
+
+    if (next === "/") {
+      let j = i;
+      while (j < content.length && content[j] !== "\n" && content[j] !== "\r") {
+        out[j] = " ";
+        j++;
+      }
+      record(i, content.slice(i + 2, j));
+      i = j - 1;
+    } else if (next === "*") {
+      let end = content.indexOf("*/", i + 2);
+      if (end === -1) {
+        const range = new LineIndex(content).range(i, i + 2);
+        if (!issues) throw new JsonSyntaxError("Unterminated block comment", range.line, range.column);
+        issues.push(syntaxIssue("", "parse/unclosed", "Unterminated block comment", range));
+        end = content.length;
+      }
+      record(i, content.slice(i + 2, end));
+      for (let j = i; j < Math.min(end + 2, content.length); j++) {
+        if (content[j] !== "\n" && content[j] !== "\r") out[j] = " ";
+      }
+      i = end + 1;
+    }
+  }
+
+  return out.join("");
+}
+
+function blankTrailingCommas(content: string): string {
+  const out = content.split("");
+  let inString = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+
+    if (inString) {
+      if (c === "\\") i++;
+      else if (c === '"' || c === "\n") inString = false;
+      continue;
+    }
+
+    if (c === '"') {
+      inString = true;
+    } else if (c === ",") {
+      let j = i + 1;
+      while (j < content.length && /\s/.test(content[j] as string)) j++;
+      if (content[j] === "}" || content[j] === "]") out[i] = " ";
+    }
+  }
+
+  return out.join("");
+}
@@ -0,0 +1,146 @@
+import { LoadLimits, LocationMap, ValidationIssue } from "../types";
+import { childPath, parentPath } from "../utils/source-locations";
+
+/**
+ * Limits applied when none are configured. They are far above what a
+ * hand-written config needs.
+ */
+export const DEFAULT_LIMITS: Required<LoadLimits> = {
+  maxFileSize: 10 * 1024 * 1024,
+  maxDepth: 100,
+  maxKeys: 100_000,
+  maxStringLength: 1024 * 1024
+};
+
+/**
+ * Raised when a config exceeds one of the {@link LoadLimits}. Loading
+ * stops at the first limit exceeded; the error is reported as a
+ * `limits/*` issue.
+ */
+export class LimitExceededError extends Error {
+  /** Issue rule, e.g. `limits/depth`. */
+  readonly rule: string;
+  /** Path of the offending node, when known. */
+  readonly path?: string;
+  readonly line?: number;
+  readonly column?: number;
+
+  constructor(rule: string, message: string, position: { path?: string; line?: number; column?: number } = {}) {
+    super(message);
+    this.name = "LimitExceededError";
+    this.rule = rule;
+    this.path = position.path;
+    this.line = position.line;
+    this.column = position.column;
+  }
+}
+
+/**
+ * Fill in the default for every limit that is not configured.
+ */
+export function resolveLimits(limits: LoadLimits = {}): Required<LoadLimits> {
+  return {
+    maxFileSize: limits.maxFileSize ?? DEFAULT_LIMITS.maxFileSize,
+    maxDepth: limits.maxDepth ?? DEFAULT_LIMITS.maxDepth,
+    maxKeys: limits.maxKeys ?? DEFAULT_LIMITS.maxKeys,
+    maxStringLength: limits.maxStringLength ?? DEFAULT_LIMITS.maxStringLength
+  };
+}
+
+/**
+ * Check the size of a config before it is read or decoded.
+ * @throws LimitExceededError if it is larger than `maxFileSize` bytes
+ */
+export function checkFileSize(size: number, maxFileSize: number): void {
+  if (size > maxFileSize) {
+    throw new LimitExceededError(
+      "limits/file-size",
+      `Config is ${size} bytes, more than the limit of ${maxFileSize} bytes`
+    );
+  }
+}
+
+/**
+ * Error for parsers whose nesting exceeds `maxDepth`, raised before the
+ * nested value is parsed so hostile input cannot exhaust the stack.
+ */
+export function depthExceeded(maxDepth: number, line: number, column: number): LimitExceededError {
+  return new LimitExceededError("limits/depth", `Config is nested more than ${maxDepth} levels deep`, {
+    line,
+    column
+  });
+}
+
+/**
+ * Check the depth, key count and string lengths (keys included) of a
+ * parsed config. Values reachable several times, such as YAML aliases,
+ * count every time, as they do for the checks that walk the config. The
+ * walk stops at the first limit exceeded, so its cost is bounded by the
+ * limits.
+ * @throws LimitExceededError positioned at the offending node when its
+ * location (or that of an enclosing node) was recorded
+ */
+export function checkValueLimits(
+  value: unknown,
+  limits: Required<LoadLimits>,
+  locations?: LocationMap
+): void {
+  let keys = 0;
+
+  const fail = (rule: string, message: string, path: string): never => {
+    let lookup: string | undefined = path;
+    while (lookup !== undefined && !locations?.has(lookup)) lookup = parentPath(lookup);
+    const location = lookup !== undefined ? locations?.get(lookup) : undefined;
+    const range = location?.key ?? location?.value;
+    throw new LimitExceededError(rule, message, { path, line: range?.line, column: range?.column });
+  };
+
+  const checkString = (text: string, path: string): void => {
+    if (text.length > limits.maxStringLength) {
+      fail(
+        "limits/string-length",
+        `String of ${text.length} characters exceeds the limit of ${limits.maxStringLength}`,
+        path
+      );
+    }
+  };
+
+  const visit = (node: unknown, path: string, depth: number): void => {
+    if (typeof node === "string") return checkString(node, path);
+    if (typeof node !== "object" || node === null) return;
+    if (depth > limits.maxDepth) {
+      fail("limits/depth", `Config is nested more than ${limits.maxDepth} levels deep`, path);
+    }
+
+    if (Array.isArray(node)) {
+      for (let index = 0; index < node.length; index++) {
+        visit(node[index], childPath(path, index), depth + 1);
+      }
+      return;
+    }
+    for (const key of Object.keys(node)) {
+      const keyPath = childPath(path, key);
+      if (++keys > limits.maxKeys) {
+        fail("limits/keys", `Config has more than ${limits.maxKeys} keys`, keyPath);
+      }
+      checkString(key, keyPath);
+      visit((node as Record<string, unknown>)[key], keyPath, depth + 1);
+    }
+  };
+
+  visit(value, "", 1);
+}
+
+/**
+ * Build the issue reported for a config that exceeds a limit.
+ */
+export function limitIssue(error: LimitExceededError, file: string): ValidationIssue {
+  return {
+    path: error.path || "$file",
+    message: error.message,
+    severity: "error",
+    rule: error.rule,
+    file,
+    ...(error.line !== undefined ? { line: error.line, column: error.column } : {})
+  };
+}
@@ -0,0 +1,79 @@
+import path from "node:path";
+import { ConfigLoader } from "../types";
+import { JsonLoader, LoaderOptions } from "./json-loader";
+import { TomlLoader } from "./toml-loader";
+import { YamlLoader } from "./yaml-loader";
+
+/**
+ * Registry of config loaders keyed by format. Loaders are selected by
+ * file extension, falling back to content sniffing for unknown
+ * extensions. Loaders registered later take precedence.
+ */
+export class LoaderRegistry {
+  private loaders: Map<string, ConfigLoader> = new Map();
+
+  /**
+   * Create a registry with the built-in YAML, TOML and JSON loaders.
+   */
+  static withDefaults(options: LoaderOptions = {}): LoaderRegistry {
+    const registry = new LoaderRegistry();
+    registry.register(new YamlLoader({ logger: options.logger, limits: options.limits }));
+    registry.register(new TomlLoader({ logger: options.logger, limits: options.limits }));
+    registry.register(new JsonLoader(options));
+    return registry;
+  }
+
+  /**
+   * Register a loader.
+   */
+  register(loader: ConfigLoader): void {
+    if (this.loaders.has(loader.format)) {
+      throw new Error(`Loader for format "${loader.format}" is already registered`);
+    }
+    this.loaders.set(loader.format, loader);
+  }
+
+  /**
+   * Unregister the loader for a format.
+   */
+  unregister(format: string): void {
+    this.loaders.delete(format);
+  }
+
+  /**
+   * Get the loader for a format.
+   */
+  get(format: string): ConfigLoader | undefined {
+    return this.loaders.get(format);
+  }
+
+  /**
+   * Get all registered loaders, most recently registered first.
+   */
+  getAll(): ConfigLoader[] {
+    return Array.from(this.loaders.values()).reverse();
+  }
+
+  /**
+   * Find the loader for a file by extension.
+   */
+  forFile(filePath: string): ConfigLoader | undefined {
+    const ext = path.extname(filePath).toLowerCase();
+    if (!ext) return undefined;
+    return this.getAll().find((loader) => loader.extensions.includes(ext));
+  }
+
+  /**
+   * Find a loader whose content sniffing accepts the given content.
+   */
+  sniff(content: string): ConfigLoader | undefined {
+    return this.getAll().find((loader) => loader.sniff?.(content) ?? false);
+  }
+
+  /**
+   * Resolve the loader for a file, by extension first and then by content.
+   */
+  resolve(filePath: string, content: string): ConfigLoader | undefined {
+    return this.forFile(filePath) ?? this.sniff(content);
+  }
+}
@@ -0,0 +1,48 @@
+import { SourceRange, ValidationIssue } from "../types";
+
+/**
+ * Build the issue reported when a mapping key is defined twice. The issue
+ * points at the later definition, which is the one that takes effect.
+ */
+export function duplicateKeyIssue(
+  path: string,
+  key: string,
+  first: SourceRange,
+  duplicate: SourceRange
+): ValidationIssue {
+  return {
+    path,
+    message: `Duplicate key "${key}"; first defined at line ${first.line}, column ${first.column}. The last definition wins.`,
+    severity: "error",
+    rule: "parse/duplicate-key",
+    line: duplicate.line,
+    column: duplicate.column,
+    endLine: duplicate.endLine,
+    endColumn: duplicate.endColumn,
+    related: [
+      {
+        message: "First definition",
+        line: first.line,
+        column: first.column,
+        endLine: first.endLine,
+        endColumn: first.endColumn
+      }
+    ]
+  };
+}
+
+/**
+ * Build the issue reported for a syntax error the parser recovered from.
+ */
+export function syntaxIssue(path: string, rule: string, reason: string, range: SourceRange): ValidationIssue {
+  return {
+    path: path || "$file",
+    message: reason,
+    severity: "error",
+    rule,
+    line: range.line,
+    column: range.column,
+    endLine: range.endLine,
+    endColumn: range.endColumn
+  };
+}
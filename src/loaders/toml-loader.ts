@@ -0,0 +1,108 @@
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { ConfigLoader, HelixConfig, LoadLimits, ParsedConfig } from "../types";
+import { Logger } from "../utils/logger";
+import { decodeText, stripBom } from "./encoding";
+import { checkFileSize, resolveLimits } from "./limits";
+import { parseToml } from "./toml-parser";
+
+export interface TomlLoaderOptions {
+  logger?: Logger;
+  /**
+   * Limits checked while loading: the file size, and the nesting depth
+   * the parser accepts. The validator checks the remaining limits.
+   */
+  limits?: LoadLimits;
+}
+
+/**
+ * TOML configuration loader backed by the built-in TOML 1.0 parser.
+ */
+export class TomlLoader implements ConfigLoader {
+  readonly format = "toml";
+  readonly extensions = [".toml"];
+  private logger: Logger;
+  private limits: Required<LoadLimits>;
+
+  constructor(options: TomlLoaderOptions = {}) {
+    this.logger = options.logger ?? new Logger({ level: "info" });
+    this.limits = resolveLimits(options.limits);
+  }
+
+  /**
+   * Load and parse a TOML configuration file.
+   * @param filePath Path to the TOML file
+   * @returns Parsed HelixConfig object
+   * @throws Error if file cannot be read or parsed
+   */
+  async load(filePath: string): Promise<HelixConfig> {
+    const resolved = path.resolve(filePath);
+    this.logger.debug(`Loading TOML config from: ${resolved}`);
+
+    try {
+      // Verify file exists
+      const stats = await stat(resolved);
+      if (!stats.isFile()) {
+        throw new Error(`Path is not a file: ${resolved}`);
+      }
+      checkFileSize(stats.size, this.limits.maxFileSize);
+
+      // Read raw bytes so BOMs and invalid sequences can be detected
+      const { text } = decodeText(await readFile(resolved));
+      const { config } = this.parse(text, resolved);
+
+      this.logger.info(`Successfully loaded TOML config: ${resolved}`);
+      return config;
+    } catch (error) {
+      this.logger.error(`Failed to load TOML config from ${resolved}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Parse TOML content into a config.
+   * @param content Decoded file content; a leading BOM is ignored
+   * @param filePath Path used in diagnostics
+   * @throws TomlSyntaxError on malformed TOML, duplicate keys or tables
+   */
+  parse(content: string, filePath: string): ParsedConfig {
+    this.logger.debug(`Parsing TOML config: ${filePath}`);
+
+    // Parse TOML, recording node positions; syntax errors carry line and column
+    const { value, locations, comments } = parseToml(stripBom(content), { maxDepth: this.limits.maxDepth });
+
+    // A TOML document is always a table, so only empty documents need checking
+    this.validateStructure(value);
+
+    return { config: value as HelixConfig, format: this.format, locations, comments };
+  }
+
+  /**
+   * Check whether content looks like a TOML document: the first
+   * significant line is a table header or a `key = value` pair.
+   */
+  sniff(content: string): boolean {
+    const line = stripBom(content)
+      .split(/\r?\n/)
+      .map((text) => text.trim())
+      .find((text) => text && !text.startsWith("#"));
+    if (!line) return false;
+    return /^\[\[?[\w"'. -]+\]\]?\s*(#.*)?$/.test(line) || /^[\w"'.-][\w"'. -]*=/.test(line);
+  }
+
+  /**
+   * Validate basic structure of the parsed config.
+   */
+  private validateStructure(config: Record<string, unknown>): void {
+    if (Object.keys(config).length === 0) {
+      throw new Error("Config must be a non-empty TOML document");
+    }
+  }
+
+  /**
+   * Check if a file path is likely a TOML file.
+   */
+  static isTomlFile(filePath: string): boolean {
+    return path.extname(filePath).toLowerCase() === ".toml";
+  }
+}
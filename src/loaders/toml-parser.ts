@@ -0,0 +1,598 @@
+import { LocationMap, SourceComment, SourceNodeLocation, SourceRange } from "../types";
+import { childPath, LineIndex } from "../utils/source-locations";
+import { DEFAULT_LIMITS, depthExceeded } from "./limits";
+
+/**
+ * TOML 1.0 parser used by the TOML loader.
+ *
+ * Supports tables, arrays of tables, dotted and quoted keys, inline tables,
+ * all string forms, integers in every base, floats and booleans. Date and
+ * time values are returned as the string written in the document.
+ */
+
+/**
+ * How a table came into existence, which decides whether it may be
+ * extended later (TOML forbids defining a table twice).
+ */
+type TableKind =
+  /** Created as the parent of a `[a.b]` header; may still get its own header. */
+  | "implicit"
+  /** Defined by a `[header]` or `[[header]]`. */
+  | "header"
+  /** Created by a dotted key such as `a.b = 1`. */
+  | "dotted"
+  /** An inline table; closed once written. */
+  | "inline";
+
+type Table = Record<string, unknown>;
+
+interface KeyPart {
+  name: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Syntax error raised while parsing TOML, carrying a 1-based position.
+ */
+export class TomlSyntaxError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(reason: string, line: number, column: number) {
+    super(`TOML parse error at line ${line}, column ${column}: ${reason}`);
+    this.name = "TomlSyntaxError";
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export interface TomlParseOptions {
+  /** Maximum nesting depth of arrays and inline tables, counting the root table (default 100). */
+  maxDepth?: number;
+}
+
+export interface TomlParseResult {
+  value: Table;
+  locations: LocationMap;
+  /** Comments in source order. */
+  comments: SourceComment[];
+}
+
+const ESCAPES: Record<string, string> = {
+  b: "\b",
+  t: "\t",
+  n: "\n",
+  f: "\f",
+  r: "\r",
+  '"': '"',
+  "\\": "\\"
+};
+
+const DATE_TIME =
+  /^\d{4}-\d{2}-\d{2}(?:[Tt ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:[Zz]|[+-]\d{2}:\d{2})?)?|^\d{2}:\d{2}:\d{2}(?:\.\d+)?/;
+const DECIMAL_INTEGER = /^[+-]?(?:0|[1-9](?:_?\d)*)$/;
+const PREFIXED_INTEGER = /^0(?:x[0-9A-Fa-f](?:_?[0-9A-Fa-f])*|o[0-7](?:_?[0-7])*|b[01](?:_?[01])*)$/;
+const FLOAT = /^[+-]?(?:0|[1-9](?:_?\d)*)(?:\.\d(?:_?\d)*)?(?:[eE][+-]?\d(?:_?\d)*)?$/;
+const BARE_KEY = /[A-Za-z0-9_-]/;
+
+/**
+ * Parse a TOML document, recording the source range of every key and
+ * value. Table headers are recorded as the value of their table.
+ * @throws TomlSyntaxError on malformed input, duplicate keys or tables
+ * @throws LimitExceededError if nesting exceeds `maxDepth`
+ */
+export function parseToml(content: string, options: TomlParseOptions = {}): TomlParseResult {
+  return new TomlParser(content, options.maxDepth ?? DEFAULT_LIMITS.maxDepth).parse();
+}
+
+class TomlParser {
+  private pos = 0;
+  private readonly src: string;
+  private readonly lines: LineIndex;
+  private readonly locations: LocationMap = new Map();
+  private readonly comments: SourceComment[] = [];
+  private readonly kinds = new WeakMap<Table, TableKind>();
+  /** Arrays created by `[[header]]`, the only arrays that can be appended to. */
+  private readonly tableArrays = new WeakSet<unknown[]>();
+  private readonly maxDepth: number;
+  /** Nesting of the value being parsed; the root table is level 1. */
+  private depth = 1;
+
+  constructor(src: string, maxDepth: number) {
+    this.src = src;
+    this.maxDepth = maxDepth;
+    this.lines = new LineIndex(src);
+  }
+
+  parse(): TomlParseResult {
+    const root: Table = {};
+    this.kinds.set(root, "header");
+    this.locations.set("", { value: this.lines.range(0, this.src.length) });
+
+    let table = root;
+    let tablePath = "";
+
+    while (!this.atEnd()) {
+      this.skipSpaces();
+      const c = this.src[this.pos];
+      if (c === undefined) break;
+
+      if (c === "\n" || c === "\r") {
+        this.skipNewline();
+        continue;
+      }
+      if (c === "#") {
+        this.skipComment();
+        continue;
+      }
+
+      if (c === "[") {
+        [table, tablePath] = this.parseHeader(root);
+      } else {
+        this.parseKeyValue(table, tablePath);
+      }
+      this.expectLineEnd();
+    }
+
+    return { value: root, locations: this.locations, comments: this.comments };
+  }
+
+  private parseHeader(root: Table): [Table, string] {
+    const start = this.pos;
+    const isArray = this.src.startsWith("[[", this.pos);
+    this.pos += isArray ? 2 : 1;
+    this.skipSpaces();
+    const parts = this.parseKey();
+    this.skipSpaces();
+    const close = isArray ? "]]" : "]";
+    if (!this.src.startsWith(close, this.pos)) this.fail(`Expected '${close}' after table name`);
+    this.pos += close.length;
+    const header = this.lines.range(start, this.pos);
+
+    let table = root;
+    let tablePath = "";
+    for (const part of parts.slice(0, -1)) {
+      tablePath = childPath(tablePath, part.name);
+      const existing = this.get(table, part.name);
+      if (existing === undefined) {
+        table = this.define(table, part.name, this.createTable("implicit"), part.start);
+        this.record(tablePath, part, header);
+      } else if (Array.isArray(existing) && this.tableArrays.has(existing)) {
+        tablePath = childPath(tablePath, existing.length - 1);
+        table = existing[existing.length - 1] as Table;
+      } else if (this.isTable(existing) && this.kinds.get(existing) !== "inline") {
+        table = existing;
+      } else {
+        this.fail(`Cannot define a table inside "${tablePath}"`, part.start);
+      }
+    }
+
+    const last = parts[parts.length - 1] as KeyPart;
+    tablePath = childPath(tablePath, last.name);
+    const existing = this.get(table, last.name);
+
+    if (isArray) {
+      let array: unknown[];
+      if (existing === undefined) {
+        array = this.define(table, last.name, [] as unknown[], last.start);
+        this.tableArrays.add(array);
+        this.record(tablePath, last, header);
+      } else if (Array.isArray(existing) && this.tableArrays.has(existing)) {
+        array = existing;
+      } else {
+        this.fail(`Cannot append to "${tablePath}", which is not an array of tables`, last.start);
+      }
+      const element = this.createTable("header");
+      const elementPath = childPath(tablePath, array.length);
+      array.push(element);
+      this.record(elementPath, last, header);
+      return [element, elementPath];
+    }
+
+    if (existing === undefined) {
+      const created = this.define(table, last.name, this.createTable("header"), last.start);
+      this.record(tablePath, last, header);
+      return [created, tablePath];
+    }
+    if (this.isTable(existing) && this.kinds.get(existing) === "implicit") {
+      this.kinds.set(existing, "header");
+      this.locations.set(tablePath, { key: this.lines.range(last.start, last.end), value: header });
+      return [existing, tablePath];
+    }
+    this.fail(`Table "${tablePath}" is already defined`, last.start);
+  }
+
+  private parseKeyValue(table: Table, tablePath: string): void {
+    const start = this.pos;
+    const parts = this.parseKey();
+    this.skipSpaces();
+    if (this.src[this.pos] !== "=") this.fail("Expected '=' after key");
+    this.pos++;
+    this.skipSpaces();
+
+    let target = table;
+    let targetPath = tablePath;
+    const created: [string, KeyPart][] = [];
+    for (const part of parts.slice(0, -1)) {
+      targetPath = childPath(targetPath, part.name);
+      const existing = this.get(target, part.name);
+      if (existing === undefined) {
+        target = this.define(target, part.name, this.createTable("dotted"), part.start);
+        created.push([targetPath, part]);
+      } else if (this.isTable(existing) && this.kinds.get(existing) === "dotted") {
+        target = existing;
+      } else {
+        this.fail(`Cannot add keys to "${targetPath}" with a dotted key`, part.start);
+      }
+    }
+
+    const last = parts[parts.length - 1] as KeyPart;
+    if (this.get(target, last.name) !== undefined) {
+      this.fail(`Duplicate key "${childPath(targetPath, last.name)}"`, last.start);
+    }
+
+    const valuePath = childPath(targetPath, last.name);
+    const value = this.parseValue(valuePath, last);
+    this.define(target, last.name, value, last.start);
+
+    // Tables created by a dotted key span the whole key/value pair
+    for (const [path, part] of created) {
+      this.record(path, part, this.lines.range(start, this.pos));
+    }
+  }
+
+  private parseKey(): KeyPart[] {
+    const parts: KeyPart[] = [];
+    for (;;) {
+      const start = this.pos;
+      const c = this.src[this.pos];
+      let name: string;
+      if (c === '"') {
+        name = this.parseBasicString();
+      } else if (c === "'") {
+        name = this.parseLiteralString();
+      } else {
+        while (BARE_KEY.test(this.src[this.pos] ?? "")) this.pos++;
+        if (this.pos === start) {
+          this.fail(this.atEnd() ? "Unexpected end of input" : `Expected a key but found ${this.describeCurrent()}`);
+        }
+        name = this.src.slice(start, this.pos);
+      }
+      parts.push({ name, start, end: this.pos });
+
+      this.skipSpaces();
+      if (this.src[this.pos] !== ".") return parts;
+      this.pos++;
+      this.skipSpaces();
+    }
+  }
+
+  private parseValue(path: string, key: KeyPart | undefined): unknown {
+    const start = this.pos;
+    const c = this.src[this.pos];
+    let value: unknown;
+
+    if (this.src.startsWith('"""', this.pos)) value = this.parseMultilineString('"');
+    else if (this.src.startsWith("'''", this.pos)) value = this.parseMultilineString("'");
+    else if (c === '"') value = this.parseBasicString();
+    else if (c === "'") value = this.parseLiteralString();
+    else if (c === "[") value = this.nested(() => this.parseArray(path));
+    else if (c === "{") value = this.nested(() => this.parseInlineTable(path));
+    else if (this.src.startsWith("true", this.pos) && !BARE_KEY.test(this.src[this.pos + 4] ?? "")) {
+      this.pos += 4;
+      value = true;
+    } else if (this.src.startsWith("false", this.pos) && !BARE_KEY.test(this.src[this.pos + 5] ?? "")) {
+      this.pos += 5;
+      value = false;
+    } else if (c === undefined || c === "\n" || c === "\r" || c === "#") {
+      this.fail("Expected a value");
+    } else {
+      value = this.parseScalar();
+    }
+
+    const location: SourceNodeLocation = { value: this.lines.range(start, this.pos) };
+    if (key) location.key = this.lines.range(key.start, key.end);
+    this.locations.set(path, location);
+    return value;
+  }
+
+  /**
+   * Parse a number, boolean-like token or date/time.
+   */
+  private parseScalar(): unknown {
+    const start = this.pos;
+    const rest = this.src.slice(this.pos, this.pos + 64);
+
+    const date = DATE_TIME.exec(rest);
+    if (date) {
+      this.pos += date[0].length;
+      if (!BARE_KEY.test(this.src[this.pos] ?? "")) return date[0];
+      this.pos = start;
+    }
+
+    while (/[0-9A-Za-z_+\-.]/.test(this.src[this.pos] ?? "")) this.pos++;
+    const token = this.src.slice(start, this.pos);
+    if (!token) this.fail(`Unexpected token ${this.describeCurrent()}`);
+
+    if (DECIMAL_INTEGER.test(token)) return Number(token.replace(/_/g, ""));
+    if (PREFIXED_INTEGER.test(token)) {
+      const radix = { x: 16, o: 8, b: 2 }[token[1] as "x" | "o" | "b"];
+      return parseInt(token.slice(2).replace(/_/g, ""), radix);
+    }
+    if (FLOAT.test(token)) return Number(token.replace(/_/g, ""));
+    if (/^[+-]?inf$/.test(token)) return token.startsWith("-") ? -Infinity : Infinity;
+    if (/^[+-]?nan$/.test(token)) return NaN;
+    this.fail(`Invalid value '${token}'`, start);
+  }
+
+  private parseArray(path: string): unknown[] {
+    const start = this.pos;
+    const result: unknown[] = [];
+    this.pos++; // "["
+
+    for (;;) {
+      this.skipBlank();
+      if (this.src[this.pos] === "]") {
+        this.pos++;
+        return result;
+      }
+      if (this.atEnd()) this.fail("Unterminated array", start);
+
+      result.push(this.parseValue(childPath(path, result.length), undefined));
+      this.skipBlank();
+      const c = this.src[this.pos];
+      if (c === ",") {
+        this.pos++;
+      } else if (c === "]") {
+        this.pos++;
+        return result;
+      } else if (this.atEnd()) {
+        this.fail("Unterminated array", start);
+      } else {
+        this.fail(`Expected ',' or ']' after array element but found ${this.describeCurrent()}`);
+      }
+    }
+  }
+
+  private parseInlineTable(path: string): Table {
+    const start = this.pos;
+    const table = this.createTable("header");
+    this.pos++; // "{"
+    this.skipSpaces();
+
+    if (this.src[this.pos] === "}") {
+      this.pos++;
+      this.kinds.set(table, "inline");
+      return table;
+    }
+
+    for (;;) {
+      this.skipSpaces();
+      if (this.atEnd() || this.src[this.pos] === "\n" || this.src[this.pos] === "\r") {
+        this.fail("Unterminated inline table", start);
+      }
+      this.parseKeyValue(table, path);
+      this.skipSpaces();
+      const c = this.src[this.pos];
+      if (c === ",") {
+        this.pos++;
+        continue;
+      }
+      if (c === "}") {
+        this.pos++;
+        this.kinds.set(table, "inline");
+        return table;
+      }
+      if (this.atEnd() || c === "\n" || c === "\r") this.fail("Unterminated inline table", start);
+      this.fail(`Expected ',' or '}' after inline table value but found ${this.describeCurrent()}`);
+    }
+  }
+
+  private parseBasicString(): string {
+    const start = this.pos;
+    this.pos++; // opening quote
+    let result = "";
+
+    for (;;) {
+      const c = this.src[this.pos];
+      if (c === undefined || c === "\n" || c === "\r") this.fail("Unterminated string", start);
+      if (c === '"') {
+        this.pos++;
+        return result;
+      }
+      if (c === "\\") {
+        result += this.parseEscape();
+        continue;
+      }
+      this.checkControl(c);
+      result += c;
+      this.pos++;
+    }
+  }
+
+  private parseLiteralString(): string {
+    const start = this.pos;
+    const end = this.src.indexOf("'", this.pos + 1);
+    const newline = this.src.slice(this.pos + 1, end === -1 ? undefined : end).search(/[\r\n]/);
+    if (end === -1 || newline !== -1) this.fail("Unterminated string", start);
+    for (this.pos++; this.pos < end; this.pos++) {
+      this.checkControl(this.src[this.pos] as string);
+    }
+    this.pos++; // closing quote
+    return this.src.slice(start + 1, end);
+  }
+
+  private parseMultilineString(quote: '"' | "'"): string {
+    const start = this.pos;
+    const delimiter = quote.repeat(3);
+    this.pos += 3;
+    // A newline right after the opening delimiter is trimmed
+    if (this.src.startsWith("\r\n", this.pos)) this.pos += 2;
+    else if (this.src[this.pos] === "\n") this.pos++;
+
+    let result = "";
+    for (;;) {
+      if (this.atEnd()) this.fail("Unterminated multi-line string", start);
+
+      if (this.src.startsWith(delimiter, this.pos)) {
+        // Up to two quotes may sit right before the closing delimiter
+        let quotes = 3;
+        while (quotes < 5 && this.src[this.pos + quotes] === quote) quotes++;
+        result += quote.repeat(quotes - 3);
+        this.pos += quotes;
+        return result;
+      }
+
+      const c = this.src[this.pos] as string;
+      if (quote === '"' && c === "\\") {
+        const trimmed = /^\\[ \t]*\r?\n[ \t\r\n]*/.exec(this.src.slice(this.pos, this.pos + 4096));
+        if (trimmed) {
+          // Line-ending backslash: drop the newline and leading whitespace
+          this.pos += trimmed[0].length;
+        } else {
+          result += this.parseEscape();
+        }
+        continue;
+      }
+
+      if (c !== "\n" && !(c === "\r" && this.src[this.pos + 1] === "\n")) this.checkControl(c);
+      result += c;
+      this.pos++;
+    }
+  }
+
+  private parseEscape(): string {
+    const start = this.pos;
+    const escape = this.src[this.pos + 1] ?? "";
+    const simple = ESCAPES[escape];
+    if (simple !== undefined) {
+      this.pos += 2;
+      return simple;
+    }
+
+    const length = escape === "u" ? 4 : escape === "U" ? 8 : 0;
+    if (!length) this.fail(`Invalid escape sequence '\\${escape}'`);
+    const hex = this.src.slice(this.pos + 2, this.pos + 2 + length);
+    const codePoint = parseInt(hex, 16);
+    if (
+      hex.length !== length ||
+      !/^[0-9A-Fa-f]+$/.test(hex) ||
+      codePoint > 0x10ffff ||
+      (codePoint >= 0xd800 && codePoint <= 0xdfff)
+    ) {
+      this.fail("Invalid unicode escape sequence", start);
+    }
+    this.pos += 2 + length;
+    return String.fromCodePoint(codePoint);
+  }
+
+  private checkControl(c: string): void {
+    const code = c.charCodeAt(0);
+    if ((code < 0x20 && c !== "\t") || code === 0x7f) {
+      this.fail(`Control character U+${code.toString(16).toUpperCase().padStart(4, "0")} must be escaped`);
+    }
+  }
+
+  private createTable(kind: TableKind): Table {
+    const table: Table = {};
+    this.kinds.set(table, kind);
+    return table;
+  }
+
+  private isTable(value: unknown): value is Table {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
+  private get(table: Table, key: string): unknown {
+    return Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined;
+  }
+
+  private define<T>(table: Table, key: string, value: T, offset: number): T {
+    if (this.get(table, key) !== undefined) this.fail(`Duplicate key "${key}"`, offset);
+    // Define rather than assign so "__proto__" stays an own property
+    Object.defineProperty(table, key, { value, enumerable: true, writable: true, configurable: true });
+    return value;
+  }
+
+  /**
+   * Record a table created by a header or dotted key, unless it already
+   * has a location.
+   */
+  private record(path: string, key: KeyPart, value: SourceRange): void {
+    if (this.locations.has(path)) return;
+    this.locations.set(path, { key: this.lines.range(key.start, key.end), value });
+  }
+
+  /**
+   * Parse an array or inline table one level deeper, failing before the
+   * nesting exceeds the limit.
+   */
+  private nested<T>(parse: () => T): T {
+    if (this.depth >= this.maxDepth) {
+      const { line, column } = this.lines.position(this.pos);
+      throw depthExceeded(this.maxDepth, line, column);
+    }
+    this.depth++;
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private expectLineEnd(): void {
+    this.skipSpaces();
+    const c = this.src[this.pos];
+    if (c === "#") this.skipComment();
+    else if (c !== undefined && c !== "\n" && c !== "\r") {
+      this.fail(`Expected a newline but found ${this.describeCurrent()}`);
+    }
+    if (!this.atEnd()) this.skipNewline();
+  }
+
+  private skipSpaces(): void {
+    while (this.src[this.pos] === " " || this.src[this.pos] === "\t") this.pos++;
+  }
+
+  /** Skip whitespace, newlines and comments inside arrays. */
+  private skipBlank(): void {
+    for (;;) {
+      this.skipSpaces();
+      const c = this.src[this.pos];
+      if (c === "#") this.skipComment();
+      else if (c === "\n" || c === "\r") this.skipNewline();
+      else return;
+    }
+  }
+
+  private skipComment(): void {
+    const start = this.pos;
+    this.pos++; // "#"
+    while (!this.atEnd() && this.src[this.pos] !== "\n" && !this.src.startsWith("\r\n", this.pos)) {
+      this.checkControl(this.src[this.pos] as string);
+      this.pos++;
+    }
+    this.comments.push({ text: this.src.slice(start + 1, this.pos), ...this.lines.position(start) });
+  }
+
+  private skipNewline(): void {
+    if (this.src.startsWith("\r\n", this.pos)) this.pos += 2;
+    else if (this.src[this.pos] === "\n") this.pos++;
+    else this.fail("Expected a newline");
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.src.length;
+  }
+
+  private describeCurrent(): string {
+    const c = this.src[this.pos];
+    return c === undefined ? "end of input" : `'${c}'`;
+  }
+
+  private fail(reason: string, offset: number = this.pos): never {
+    const { line, column } = this.lines.position(offset);
+    throw new TomlSyntaxError(reason, line, column);
+  }
+}
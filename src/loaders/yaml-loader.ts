@@ -1,26 +1,38 @@
 import { readFile, stat } from "node:fs/promises";
 import path from "node:path";
-import { HelixConfig } from "../types";
+import { ConfigLoader, HelixConfig, LoadLimits, ParsedConfig } from "../types";
 import { Logger } from "../utils/logger";
+import { decodeText, stripBom } from "./encoding";
+import { checkFileSize, resolveLimits } from "./limits";
+import { parseYamlStream } from "./yaml-parser";
 
 export interface YamlLoaderOptions {
   logger?: Logger;
+  /**
+   * @deprecated Comments are always handled by the YAML parser.
+   */
   allowComments?: boolean;
+  /**
+   * Limits checked while loading: the file size, and the nesting depth
+   * the parser accepts. The validator checks the remaining limits.
+   */
+  limits?: LoadLimits;
 }
 
 /**
- * YAML configuration loader with support for YAML parsing,
- * comment handling, and multi-document support.
- * Note: This is a placeholder implementation. In production,
- * you would use a library like 'js-yaml' or 'yaml'.
+ * YAML configuration loader backed by the built-in YAML 1.2 parser,
+ * with support for comments, anchors/aliases, block scalars and
+ * multi-document streams (one config per `---` document).
  */
-export class YamlLoader {
+export class YamlLoader implements ConfigLoader {
+  readonly format = "yaml";
+  readonly extensions = [".yaml", ".yml"];
   private logger: Logger;
-  private allowComments: boolean;
+  private limits: Required<LoadLimits>;
 
   constructor(options: YamlLoaderOptions = {}) {
     this.logger = options.logger ?? new Logger({ level: "info" });
-    this.allowComments = options.allowComments ?? true;
+    this.limits = resolveLimits(options.limits);
   }
 
   /**
@@ -39,20 +51,11 @@ export class YamlLoader {
       if (!stats.isFile()) {
         throw new Error(`Path is not a file: ${resolved}`);
       }
+      checkFileSize(stats.size, this.limits.maxFileSize);
 
-      // Read file content
-      const content = await readFile(resolved, "utf8");
-
-      // Remove comments if not allowed
-      const processedContent = this.allowComments
-        ? content
-        : this.removeComments(content);
-
-      // Parse YAML (placeholder - would use actual YAML parser)
-      const config = this.parseYaml(processedContent);
-
-      // Validate structure
-      this.validateStructure(config);
+      // Read raw bytes so BOMs and invalid sequences can be detected
+      const { text } = decodeText(await readFile(resolved));
+      const { config } = this.parse(text, resolved);
 
       this.logger.info(`Successfully loaded YAML config: ${resolved}`);
       return config;
@@ -63,58 +66,51 @@ export class YamlLoader {
   }
 
   /**
-   * Remove YAML comments from content.
+   * Parse YAML content into a config. Streams with several non-empty
+   * documents also list every document under `documents`.
+   * @param content Decoded file content; a leading BOM is ignored
+   * @param filePath Path used in diagnostics
+   * @throws YamlSyntaxError on malformed YAML, Error if a document is not a mapping
    */
-  private removeComments(content: string): string {
-    return content
-      .split("\n")
-      .map((line) => {
-        // Don't remove comments inside strings
-        const commentIndex = line.indexOf("#");
-        if (commentIndex === -1) return line;
-        
-        // Check if # is inside quotes
-        const beforeComment = line.substring(0, commentIndex);
-        const singleQuotes = (beforeComment.match(/'/g) || []).length;
-        const doubleQuotes = (beforeComment.match(/"/g) || []).length;
-        
-        if (singleQuotes % 2 === 1 || doubleQuotes % 2 === 1) {
-          return line; // Inside quotes, keep comment
-        }
-        
-        return line.substring(0, commentIndex).trimEnd();
-      })
-      .join("\n");
+  parse(content: string, filePath: string): ParsedConfig {
+    this.logger.debug(`Parsing YAML config: ${filePath}`);
+
+    // Parse YAML, recording node positions; syntax errors carry line and column.
+    // Empty documents, e.g. after a trailing `---`, hold no config.
+    const documents = parseYamlStream(stripBom(content), { maxDepth: this.limits.maxDepth }).filter(
+      (document) => document.value !== null
+    );
+    if (documents.length <= 1) {
+      const { value = null, locations, issues, comments } = documents[0] ?? {};
+      this.validateStructure(value);
+      return { config: value as HelixConfig, format: this.format, locations, issues, comments };
+    }
+
+    const parsed = documents.map(({ value, locations, issues, comments }, index): ParsedConfig => {
+      this.validateStructure(value, index);
+      return { config: value as HelixConfig, format: this.format, locations, issues, comments };
+    });
+    return { ...(parsed[0] as ParsedConfig), documents: parsed };
   }
 
   /**
-   * Parse YAML content (placeholder implementation).
-   * In production, this would use a proper YAML parser.
+   * Check whether content looks like a YAML mapping document.
    */
-  private parseYaml(content: string): HelixConfig {
-    // This is a mock implementation
-    // In real code, you would use: yaml.parse(content) or js-yaml.load(content)
-    try {
-      // For now, try to parse as JSON if it looks like JSON
-      // This is just for demonstration purposes
-      return JSON.parse(content) as HelixConfig;
-    } catch {
-      throw new Error(
-        "YAML parsing not fully implemented. Please use JSON format or install a YAML parser."
-      );
-    }
+  sniff(content: string): boolean {
+    return /^(---|%YAML|[ \t]*[\w"'.-][^:\n]*:(\s|$))/m.test(stripBom(content));
   }
 
   /**
    * Validate basic structure of the parsed config.
    */
-  private validateStructure(config: unknown): void {
+  private validateStructure(config: unknown, document?: number): void {
+    const where = document === undefined ? "" : `Document ${document}: `;
     if (typeof config !== "object" || config === null) {
-      throw new Error("Config must be a YAML object");
+      throw new Error(`${where}Config must be a YAML object`);
     }
 
     if (Array.isArray(config)) {
-      throw new Error("Config cannot be a YAML array, must be an object");
+      throw new Error(`${where}Config cannot be a YAML array, must be an object`);
     }
   }
 
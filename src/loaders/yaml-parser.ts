@@ -0,0 +1,1221 @@
+import { LocationMap, SourceComment, SourceNodeLocation, SourceRange, ValidationIssue } from "../types";
+import { childPath, forgetLocations, LineIndex } from "../utils/source-locations";
+import { DEFAULT_LIMITS, depthExceeded } from "./limits";
+import { duplicateKeyIssue } from "./parse-issues";
+
+/**
+ * YAML 1.2 parser used by the YAML loader.
+ *
+ * Supports block and flow mappings/sequences, plain, quoted and block
+ * scalars, anchors, aliases, merge keys (`<<`), the core schema tags and
+ * comments. Scalars are resolved with the YAML 1.2 core schema.
+ */
+
+type YamlNode = YamlScalarNode | YamlMapNode | YamlSeqNode | YamlAliasNode;
+
+interface YamlScalarNode {
+  kind: "scalar";
+  value: unknown;
+  /** Source text of a plain scalar before resolution, used by tags. */
+  raw?: string;
+  start: number;
+  end: number;
+}
+
+interface YamlPair {
+  key: YamlScalarNode;
+  value: YamlNode;
+}
+
+interface YamlMapNode {
+  kind: "map";
+  pairs: YamlPair[];
+  start: number;
+  end: number;
+}
+
+interface YamlSeqNode {
+  kind: "seq";
+  items: YamlNode[];
+  start: number;
+  end: number;
+}
+
+interface YamlAliasNode {
+  kind: "alias";
+  name: string;
+  target: YamlNode;
+  start: number;
+  end: number;
+}
+
+interface NodeProperties {
+  anchor?: string;
+  tag?: string;
+  start: number;
+}
+
+interface BlockContext {
+  /** The node starts on the line of a `key:` indicator. */
+  inlineValue?: boolean;
+  /** A block sequence may sit at the parent's indentation (`key:\n- a`). */
+  allowSeqAtIndent?: boolean;
+}
+
+const FLOW_INDICATORS = ",[]{}";
+
+const ESCAPES: Record<string, string> = {
+  "0": "\0",
+  a: "\x07",
+  b: "\b",
+  t: "\t",
+  "\t": "\t",
+  n: "\n",
+  v: "\v",
+  f: "\f",
+  r: "\r",
+  e: "\x1b",
+  " ": " ",
+  '"': '"',
+  "/": "/",
+  "\\": "\\",
+  N: "\x85",
+  _: "\xa0",
+  L: "\u2028",
+  P: "\u2029"
+};
+
+const ESCAPE_HEX_LENGTH: Record<string, number> = { x: 2, u: 4, U: 8 };
+
+/**
+ * Syntax error raised while parsing YAML, carrying a 1-based position.
+ */
+export class YamlSyntaxError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(reason: string, line: number, column: number) {
+    super(`YAML parse error at line ${line}, column ${column}: ${reason}`);
+    this.name = "YamlSyntaxError";
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export interface YamlParseOptions {
+  /** Maximum nesting depth of mappings and sequences (default 100). */
+  maxDepth?: number;
+}
+
+export interface YamlParseResult {
+  value: unknown;
+  locations: LocationMap;
+  /** Non-fatal problems such as duplicate keys. */
+  issues: ValidationIssue[];
+  /** Comments of the whole stream, in source order. */
+  comments: SourceComment[];
+}
+
+/**
+ * Parse a YAML stream containing a single document.
+ * @returns The document value (null for an empty stream)
+ * @throws YamlSyntaxError on malformed input
+ */
+export function parseYaml(content: string, options: YamlParseOptions = {}): unknown {
+  return parseYamlDocument(content, options).value;
+}
+
+/**
+ * Parse a single-document YAML stream, recording the source range of
+ * every node that is written out in the document (aliases point at the
+ * alias itself, not at the anchored node). Duplicate keys keep the last
+ * value and are reported as `parse/duplicate-key` issues.
+ * @throws YamlSyntaxError on malformed input
+ * @throws LimitExceededError if nesting exceeds `maxDepth`
+ */
+export function parseYamlDocument(content: string, options: YamlParseOptions = {}): YamlParseResult {
+  const parser = new YamlParser(content, options.maxDepth ?? DEFAULT_LIMITS.maxDepth);
+  const documents = parser.parseStream();
+  if (documents.length > 1) {
+    const second = documents[1] as YamlNode;
+    parser.fail(
+      `Expected a single YAML document but found ${documents.length}`,
+      second.start
+    );
+  }
+
+  const root = documents[0];
+  if (!root) return { value: null, locations: new Map(), issues: [], comments: parser.sourceComments() };
+  return documentResult(root, parser);
+}
+
+/**
+ * Parse every document of a YAML stream, recording source ranges and
+ * duplicate keys per document as {@link parseYamlDocument} does.
+ * @throws YamlSyntaxError on malformed input
+ * @throws LimitExceededError if nesting exceeds `maxDepth`
+ */
+export function parseYamlStream(content: string, options: YamlParseOptions = {}): YamlParseResult[] {
+  const parser = new YamlParser(content, options.maxDepth ?? DEFAULT_LIMITS.maxDepth);
+  return parser.parseStream().map((root) => documentResult(root, parser));
+}
+
+function documentResult(root: YamlNode, parser: YamlParser): YamlParseResult {
+  const index: NodeIndex = { lines: parser.lines, locations: new Map(), issues: [] };
+  indexNode(root, "", undefined, index);
+  return {
+    value: toValue(root, new Map()),
+    locations: index.locations,
+    issues: index.issues,
+    comments: parser.sourceComments()
+  };
+}
+
+class YamlParser {
+  readonly lines: LineIndex;
+  private pos = 0;
+  private readonly src: string;
+  private readonly anchors = new Map<string, YamlNode>();
+  /** Comments by offset; lookahead may skip the same comment twice. */
+  private readonly comments = new Map<number, SourceComment>();
+  private readonly maxDepth: number;
+  private depth = 0;
+
+  constructor(src: string, maxDepth: number) {
+    this.src = src;
+    this.maxDepth = maxDepth;
+    this.lines = new LineIndex(src);
+  }
+
+  /**
+   * The comments skipped so far, in source order.
+   */
+  sourceComments(): SourceComment[] {
+    return Array.from(this.comments.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, comment]) => comment);
+  }
+
+  parseStream(): YamlNode[] {
+    const documents: YamlNode[] = [];
+
+    for (;;) {
+      this.skipBlankLines();
+      if (this.atEnd()) break;
+
+      let sawDirective = false;
+      while (this.column() === 0 && this.ch() === "%") {
+        this.skipToLineEnd();
+        this.skipBlankLines();
+        sawDirective = true;
+      }
+
+      let explicitStart = false;
+      if (this.isDocumentMarker("---")) {
+        this.pos += 3;
+        explicitStart = true;
+      } else if (sawDirective) {
+        this.fail("Expected '---' after directives");
+      }
+
+      // Anchors are scoped to their document
+      this.anchors.clear();
+      let root: YamlNode;
+      if (explicitStart) {
+        this.skipSpaceAndComment();
+        root = this.atLineEnd()
+          ? this.parseBlockNode(-1, {})
+          : this.parseBlockNode(-1, { inlineValue: true });
+      } else {
+        root = this.parseBlockNode(-1, {});
+      }
+      documents.push(root);
+
+      this.skipBlankLines();
+      if (this.isDocumentMarker("...")) {
+        this.pos += 3;
+        this.skipSpaceAndComment();
+        continue;
+      }
+      if (this.atEnd() || this.isDocumentMarker("---")) continue;
+      this.fail("Unexpected content after document");
+    }
+
+    return documents;
+  }
+
+  /**
+   * Parse a collection one level deeper, failing before the nesting
+   * exceeds the limit.
+   */
+  private nested<T>(parse: () => T): T {
+    if (this.depth >= this.maxDepth) {
+      const { line, column } = this.position(this.pos);
+      throw depthExceeded(this.maxDepth, line, column);
+    }
+    this.depth++;
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  fail(reason: string, offset: number = this.pos): never {
+    const { line, column } = this.position(offset);
+    throw new YamlSyntaxError(reason, line, column);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Block context
+  // ---------------------------------------------------------------------------
+
+  private parseBlockNode(parentIndent: number, context: BlockContext): YamlNode {
+    const before = this.pos;
+    if (!context.inlineValue) this.skipBlankLines();
+
+    if (this.atEnd() || this.isDocumentMarker("---") || this.isDocumentMarker("...")) {
+      this.pos = before;
+      return emptyScalar(before);
+    }
+
+    const indent = this.column();
+    if (!context.inlineValue) {
+      this.checkIndentation();
+      const seqAtIndent =
+        context.allowSeqAtIndent && indent === parentIndent && this.isSequenceEntry();
+      if (indent <= parentIndent && !seqAtIndent) {
+        this.pos = before;
+        return emptyScalar(before);
+      }
+    }
+
+    const props = this.parseProperties();
+    if (props) {
+      this.skipSpaceAndComment();
+      if (this.atLineEnd()) {
+        const node = this.parseBlockNode(parentIndent, {
+          allowSeqAtIndent: context.allowSeqAtIndent
+        });
+        return this.applyProperties(node, props);
+      }
+    }
+
+    let node: YamlNode;
+    const c = this.ch();
+    if (c === "-" && isBlankOrEnd(this.ch(1))) {
+      if (context.inlineValue) this.fail("Block sequence entries are not allowed here");
+      node = this.nested(() => this.parseBlockSequence(this.column()));
+    } else if (c === "?" && isBlankOrEnd(this.ch(1))) {
+      this.fail("Complex mapping keys are not supported");
+    } else if (c === "|" || c === ">") {
+      node = this.parseBlockScalar(parentIndent);
+    } else if (!context.inlineValue && this.looksLikeImplicitKey()) {
+      node = this.nested(() => this.parseBlockMapping(this.column()));
+    } else if (c === "*") {
+      node = this.parseAlias();
+      this.expectLineEnd();
+    } else if (c === "[" || c === "{") {
+      node = this.nested(() => (c === "[" ? this.parseFlowSequence() : this.parseFlowMapping()));
+      this.expectLineEnd();
+    } else if (c === '"' || c === "'") {
+      node = this.parseQuotedScalar();
+      this.expectLineEnd();
+    } else if (c === "@" || c === "`") {
+      this.fail(`Reserved indicator '${c}' cannot start a plain scalar`);
+    } else {
+      node = this.parseBlockPlainScalar(parentIndent);
+    }
+
+    return props ? this.applyProperties(node, props) : node;
+  }
+
+  private parseBlockMapping(indent: number): YamlMapNode {
+    const start = this.pos;
+    const pairs: YamlPair[] = [];
+    let end = start;
+
+    for (;;) {
+      const key = this.parseImplicitKey();
+      this.skipSpaces();
+      if (this.ch() !== ":") this.fail("Expected ':' after mapping key");
+      this.pos++;
+      this.skipSpaceAndComment();
+
+      const value = this.atLineEnd()
+        ? this.parseBlockNode(indent, { allowSeqAtIndent: true })
+        : this.parseBlockNode(indent, { inlineValue: true });
+      pairs.push({ key, value });
+      end = Math.max(key.end, value.end);
+
+      this.skipBlankLines();
+      if (this.atEnd() || this.isDocumentMarker("---") || this.isDocumentMarker("...")) break;
+      const column = this.column();
+      if (column < indent) break;
+      if (column > indent) this.fail("Bad indentation of a mapping entry");
+      this.checkIndentation();
+      if (!this.looksLikeImplicitKey()) this.fail("Expected a mapping key");
+    }
+
+    return { kind: "map", pairs, start, end };
+  }
+
+  private parseBlockSequence(indent: number): YamlSeqNode {
+    const start = this.pos;
+    const items: YamlNode[] = [];
+    let end = start;
+
+    for (;;) {
+      this.pos++; // "-"
+      this.skipSpaceAndComment();
+      const item = this.parseBlockNode(indent, {});
+      items.push(item);
+      end = Math.max(start + 1, item.end);
+
+      this.skipBlankLines();
+      if (this.atEnd() || this.isDocumentMarker("---") || this.isDocumentMarker("...")) break;
+      const column = this.column();
+      if (column < indent) break;
+      if (column > indent) this.fail("Bad indentation of a sequence entry");
+      this.checkIndentation();
+      if (!this.isSequenceEntry()) break;
+    }
+
+    return { kind: "seq", items, start, end };
+  }
+
+  private parseImplicitKey(): YamlScalarNode {
+    const c = this.ch();
+    if (c === '"' || c === "'") {
+      const node = this.parseQuotedScalar();
+      return { ...node, value: String(node.value) };
+    }
+
+    const start = this.pos;
+    while (!this.atLineEnd()) {
+      if (this.ch() === ":" && isBlankOrEnd(this.ch(1))) break;
+      this.pos++;
+    }
+    const text = this.src.slice(start, this.pos).trimEnd();
+    return { kind: "scalar", value: text, raw: text, start, end: start + text.length };
+  }
+
+  private parseBlockPlainScalar(parentIndent: number): YamlScalarNode {
+    const start = this.pos;
+    const first = this.readPlainLine();
+    let text = first.text;
+    let end = this.pos;
+    let stoppedAtComment = first.stoppedAtComment;
+
+    while (!stoppedAtComment) {
+      const resume = this.pos;
+      this.skipToLineEnd();
+      let emptyLines = 0;
+      let contentColumn = -1;
+
+      while (!this.atEnd()) {
+        this.consumeLineBreak();
+        const lineStart = this.pos;
+        while (this.ch() === " " || this.ch() === "\t") this.pos++;
+        if (this.atLineEnd()) {
+          if (this.atEnd()) break;
+          emptyLines++;
+          continue;
+        }
+        contentColumn = this.pos - lineStart;
+        break;
+      }
+
+      if (
+        contentColumn <= parentIndent ||
+        this.ch() === "#" ||
+        this.isDocumentMarker("---") ||
+        this.isDocumentMarker("...")
+      ) {
+        this.pos = resume;
+        break;
+      }
+
+      const segment = this.readPlainLine();
+      text += emptyLines > 0 ? "\n".repeat(emptyLines) : " ";
+      text += segment.text;
+      end = this.pos;
+      stoppedAtComment = segment.stoppedAtComment;
+    }
+
+    this.pos = end;
+    return { kind: "scalar", value: resolvePlainScalar(text), raw: text, start, end };
+  }
+
+  /**
+   * Read one line of a block plain scalar, leaving the position after the
+   * last non-space character.
+   */
+  private readPlainLine(): { text: string; stoppedAtComment: boolean } {
+    const start = this.pos;
+    let end = start;
+    let stoppedAtComment = false;
+    while (!this.atLineEnd()) {
+      const c = this.ch();
+      if (c === "#" && this.pos > start && isWhitespace(this.src[this.pos - 1] ?? "")) {
+        stoppedAtComment = true;
+        break;
+      }
+      if (c === ":" && isBlankOrEnd(this.ch(1))) {
+        this.fail("Mapping values are not allowed in this context");
+      }
+      this.pos++;
+      if (!isWhitespace(c)) end = this.pos;
+    }
+    this.pos = end;
+    return { text: this.src.slice(start, end), stoppedAtComment };
+  }
+
+  private parseBlockScalar(parentIndent: number): YamlScalarNode {
+    const start = this.pos;
+    const folded = this.ch() === ">";
+    this.pos++;
+
+    let chomping: "clip" | "strip" | "keep" = "clip";
+    let explicitIndent = 0;
+    for (let i = 0; i < 2; i++) {
+      const c = this.ch();
+      if (c === "-" || c === "+") {
+        chomping = c === "-" ? "strip" : "keep";
+        this.pos++;
+      } else if (c >= "1" && c <= "9") {
+        explicitIndent = Number(c);
+        this.pos++;
+      }
+    }
+
+    this.skipSpaceAndComment();
+    if (!this.atLineEnd()) this.fail("Unexpected characters after block scalar header");
+
+    let contentIndent = explicitIndent > 0 ? Math.max(parentIndent, 0) + explicitIndent : -1;
+    const lines: string[] = [];
+    let end = this.pos;
+
+    while (!this.atEnd()) {
+      const lineBegin = this.pos;
+      this.consumeLineBreak();
+      const lineStart = this.pos;
+      while (this.ch() === " ") this.pos++;
+      const spaces = this.pos - lineStart;
+
+      if (this.atLineEnd()) {
+        if (this.atEnd()) break;
+        if (contentIndent >= 0 && spaces > contentIndent) {
+          lines.push(this.src.slice(lineStart + contentIndent, this.pos));
+          end = this.pos;
+        } else {
+          lines.push("");
+        }
+        continue;
+      }
+
+      if (contentIndent < 0) contentIndent = spaces;
+      if (
+        spaces < contentIndent ||
+        spaces <= parentIndent ||
+        this.isDocumentMarker("---") ||
+        this.isDocumentMarker("...")
+      ) {
+        this.pos = lineBegin;
+        break;
+      }
+
+      const textStart = lineStart + contentIndent;
+      this.skipToLineEnd();
+      lines.push(this.src.slice(textStart, this.pos));
+      end = this.pos;
+    }
+
+    return {
+      kind: "scalar",
+      value: foldBlockScalar(lines, folded, chomping),
+      start,
+      end
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Flow context
+  // ---------------------------------------------------------------------------
+
+  private parseFlowNode(): YamlNode {
+    this.skipFlowWhitespace();
+    const props = this.parseProperties();
+    if (props) this.skipFlowWhitespace();
+
+    let node: YamlNode;
+    const c = this.ch();
+    if (c === "[") node = this.nested(() => this.parseFlowSequence());
+    else if (c === "{") node = this.nested(() => this.parseFlowMapping());
+    else if (c === '"' || c === "'") node = this.parseQuotedScalar();
+    else if (c === "*") node = this.parseAlias();
+    else if (c === "" || c === "," || c === "]" || c === "}") node = emptyScalar(this.pos);
+    else node = this.parseFlowPlainScalar();
+
+    return props ? this.applyProperties(node, props) : node;
+  }
+
+  private parseFlowSequence(): YamlSeqNode {
+    const start = this.pos;
+    const items: YamlNode[] = [];
+    this.pos++; // "["
+
+    for (;;) {
+      this.skipFlowWhitespace();
+      if (this.ch() === "]") break;
+      if (this.atEnd()) this.fail("Unterminated flow sequence", start);
+
+      let item = this.parseFlowNode();
+      this.skipFlowWhitespace();
+      if (this.isFlowValueIndicator(item)) {
+        this.pos++;
+        const value = this.parseFlowValue();
+        const key = this.toKey(item);
+        item = { kind: "map", pairs: [{ key, value }], start: item.start, end: value.end };
+      }
+      items.push(item);
+
+      this.skipFlowWhitespace();
+      if (this.ch() === ",") {
+        this.pos++;
+      } else if (this.ch() !== "]") {
+        if (this.atEnd()) this.fail("Unterminated flow sequence", start);
+        this.fail("Expected ',' or ']'");
+      }
+    }
+
+    this.pos++; // "]"
+    return { kind: "seq", items, start, end: this.pos };
+  }
+
+  private parseFlowMapping(): YamlMapNode {
+    const start = this.pos;
+    const pairs: YamlPair[] = [];
+    this.pos++; // "{"
+
+    for (;;) {
+      this.skipFlowWhitespace();
+      if (this.ch() === "}") break;
+      if (this.atEnd()) this.fail("Unterminated flow mapping", start);
+
+      const keyNode = this.parseFlowNode();
+      const key = this.toKey(keyNode);
+      this.skipFlowWhitespace();
+      let value: YamlNode;
+      if (this.isFlowValueIndicator(keyNode)) {
+        this.pos++;
+        value = this.parseFlowValue();
+      } else {
+        value = emptyScalar(key.end);
+      }
+      pairs.push({ key, value });
+
+      this.skipFlowWhitespace();
+      if (this.ch() === ",") {
+        this.pos++;
+      } else if (this.ch() !== "}") {
+        if (this.atEnd()) this.fail("Unterminated flow mapping", start);
+        this.fail("Expected ',' or '}'");
+      }
+    }
+
+    this.pos++; // "}"
+    return { kind: "map", pairs, start, end: this.pos };
+  }
+
+  private parseFlowValue(): YamlNode {
+    this.skipFlowWhitespace();
+    const c = this.ch();
+    if (c === "," || c === "]" || c === "}") return emptyScalar(this.pos);
+    return this.parseFlowNode();
+  }
+
+  /**
+   * Whether the current `:` separates a flow key from its value. JSON-like
+   * keys (quoted or collections) may be followed by `:` without a space.
+   */
+  private isFlowValueIndicator(key: YamlNode): boolean {
+    if (this.ch() !== ":") return false;
+    const next = this.ch(1);
+    if (isBlankOrEnd(next) || FLOW_INDICATORS.includes(next)) return true;
+    const first = this.src[key.start];
+    return first === '"' || first === "'" || first === "[" || first === "{";
+  }
+
+  private parseFlowPlainScalar(): YamlScalarNode {
+    const start = this.pos;
+    let end = start;
+    while (!this.atEnd()) {
+      const c = this.ch();
+      if (FLOW_INDICATORS.includes(c)) break;
+      if (c === ":") {
+        const next = this.ch(1);
+        if (isBlankOrEnd(next) || FLOW_INDICATORS.includes(next)) break;
+      }
+      if (c === "#" && isBlankOrEnd(this.src[this.pos - 1] ?? "")) break;
+      this.pos++;
+      if (!isBlankOrEnd(c)) end = this.pos;
+    }
+    this.pos = end;
+
+    const text = foldFlowLines(this.src.slice(start, end));
+    return { kind: "scalar", value: resolvePlainScalar(text), raw: text, start, end };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Shared node parsers
+  // ---------------------------------------------------------------------------
+
+  private parseQuotedScalar(): YamlScalarNode {
+    const start = this.pos;
+    const quote = this.ch();
+    const double = quote === '"';
+    this.pos++;
+
+    let out = "";
+    let pendingSpace = "";
+
+    for (;;) {
+      const c = this.ch();
+      if (c === "") this.fail("Unterminated quoted scalar", start);
+
+      if (c === quote) {
+        if (!double && this.ch(1) === "'") {
+          out += pendingSpace + "'";
+          pendingSpace = "";
+          this.pos += 2;
+          continue;
+        }
+        this.pos++;
+        break;
+      }
+
+      if (c === "\n" || (c === "\r" && this.ch(1) === "\n")) {
+        pendingSpace = "";
+        this.consumeLineBreak();
+        let emptyLines = 0;
+        for (;;) {
+          while (this.ch() === " " || this.ch() === "\t") this.pos++;
+          if (this.ch() === "\n" || (this.ch() === "\r" && this.ch(1) === "\n")) {
+            this.consumeLineBreak();
+            emptyLines++;
+            continue;
+          }
+          break;
+        }
+        if (this.isDocumentMarker("---") || this.isDocumentMarker("...")) {
+          this.fail("Unterminated quoted scalar", start);
+        }
+        out += emptyLines > 0 ? "\n".repeat(emptyLines) : " ";
+        continue;
+      }
+
+      if (c === " " || c === "\t") {
+        pendingSpace += c;
+        this.pos++;
+        continue;
+      }
+
+      out += pendingSpace;
+      pendingSpace = "";
+
+      if (double && c === "\\") {
+        out += this.readEscape();
+        continue;
+      }
+
+      out += c;
+      this.pos++;
+    }
+
+    return { kind: "scalar", value: out, start, end: this.pos };
+  }
+
+  private readEscape(): string {
+    const escapeStart = this.pos;
+    this.pos++; // "\"
+    const c = this.ch();
+
+    if (c === "\n" || (c === "\r" && this.ch(1) === "\n")) {
+      this.consumeLineBreak();
+      while (this.ch() === " " || this.ch() === "\t") this.pos++;
+      return "";
+    }
+
+    const simple = ESCAPES[c];
+    if (simple !== undefined) {
+      this.pos++;
+      return simple;
+    }
+
+    const hexLength = ESCAPE_HEX_LENGTH[c];
+    if (hexLength !== undefined) {
+      const hex = this.src.slice(this.pos + 1, this.pos + 1 + hexLength);
+      if (hex.length !== hexLength || !/^[0-9a-fA-F]+$/.test(hex)) {
+        this.fail(`Invalid \\${c} escape sequence`, escapeStart);
+      }
+      const codePoint = parseInt(hex, 16);
+      if (codePoint > 0x10ffff) this.fail("Escaped code point out of range", escapeStart);
+      this.pos += 1 + hexLength;
+      return String.fromCodePoint(codePoint);
+    }
+
+    this.fail(`Unknown escape sequence '\\${c}'`, escapeStart);
+  }
+
+  private parseAlias(): YamlAliasNode {
+    const start = this.pos;
+    this.pos++; // "*"
+    const name = this.readAnchorName();
+    if (!name) this.fail("Alias name expected", start);
+    const target = this.anchors.get(name);
+    if (!target) this.fail(`Unknown alias "${name}"`, start);
+    return { kind: "alias", name, target, start, end: this.pos };
+  }
+
+  private parseProperties(): NodeProperties | undefined {
+    let props: NodeProperties | undefined;
+    for (;;) {
+      const c = this.ch();
+      if (c !== "&" && c !== "!") break;
+      props ??= { start: this.pos };
+      const markerStart = this.pos;
+      this.pos++;
+      if (c === "&") {
+        if (props.anchor !== undefined) this.fail("A node can only have one anchor", markerStart);
+        const name = this.readAnchorName();
+        if (!name) this.fail("Anchor name expected", markerStart);
+        props.anchor = name;
+      } else {
+        if (props.tag !== undefined) this.fail("A node can only have one tag", markerStart);
+        while (!isBlankOrEnd(this.ch()) && !FLOW_INDICATORS.includes(this.ch())) this.pos++;
+        props.tag = this.src.slice(markerStart, this.pos);
+      }
+      this.skipSpaces();
+    }
+    return props;
+  }
+
+  private readAnchorName(): string {
+    const start = this.pos;
+    while (!isBlankOrEnd(this.ch()) && !FLOW_INDICATORS.includes(this.ch())) this.pos++;
+    return this.src.slice(start, this.pos);
+  }
+
+  private applyProperties(node: YamlNode, props: NodeProperties): YamlNode {
+    let result = node;
+    if (props.tag !== undefined) result = this.applyTag(node, props.tag, props.start);
+    if (props.anchor !== undefined) this.anchors.set(props.anchor, result);
+    return result;
+  }
+
+  private applyTag(node: YamlNode, tag: string, offset: number): YamlNode {
+    const name = tag.startsWith("!!") ? tag.slice(2) : tag;
+    if (name === "map" || name === "seq") {
+      const expected = name === "map" ? "map" : "seq";
+      const actual = node.kind === "alias" ? node.target.kind : node.kind;
+      if (actual !== expected) this.fail(`Node does not match tag ${tag}`, offset);
+      return node;
+    }
+    if (node.kind !== "scalar") return node;
+
+    const text = node.raw ?? String(node.value ?? "");
+    let value: unknown;
+    switch (name) {
+      case "!":
+      case "str":
+        value = node.raw ?? (node.value === null ? "" : String(node.value));
+        break;
+      case "int":
+        value = resolvePlainScalar(text);
+        if (typeof value !== "number" || !Number.isInteger(value)) {
+          this.fail(`Cannot resolve "${text}" as ${tag}`, offset);
+        }
+        break;
+      case "float":
+        value = resolvePlainScalar(text);
+        if (typeof value !== "number") this.fail(`Cannot resolve "${text}" as ${tag}`, offset);
+        break;
+      case "bool":
+        value = resolvePlainScalar(text);
+        if (typeof value !== "boolean") this.fail(`Cannot resolve "${text}" as ${tag}`, offset);
+        break;
+      case "null":
+        value = null;
+        break;
+      default:
+        // Unknown local tags are preserved as untagged values
+        return node;
+    }
+    return { ...node, value };
+  }
+
+  private toKey(node: YamlNode): YamlScalarNode {
+    if (node.kind === "alias" && node.target.kind === "scalar") {
+      return { ...node.target, value: keyString(node.target.value), start: node.start, end: node.end };
+    }
+    if (node.kind !== "scalar") this.fail("Only scalar mapping keys are supported", node.start);
+    return { ...node, value: node.raw ?? keyString(node.value) };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lookahead helpers
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Whether the current line starts with `key:` (plain or quoted key).
+   */
+  private looksLikeImplicitKey(): boolean {
+    let p = this.pos;
+    const first = this.src[p] ?? "";
+
+    if (first === '"' || first === "'") {
+      p++;
+      for (;;) {
+        const c = this.src[p] ?? "";
+        if (c === "" || c === "\n") return false;
+        if (first === '"' && c === "\\") {
+          p += 2;
+          continue;
+        }
+        if (c === first) {
+          if (first === "'" && this.src[p + 1] === "'") {
+            p += 2;
+            continue;
+          }
+          p++;
+          break;
+        }
+        p++;
+      }
+      while (this.src[p] === " " || this.src[p] === "\t") p++;
+      return this.src[p] === ":" && isBlankOrEnd(this.src[p + 1] ?? "");
+    }
+
+    if ("[{#|>*&!%@`".includes(first) || isBlankOrEnd(first)) return false;
+    if ((first === "-" || first === "?" || first === ":") && isBlankOrEnd(this.src[p + 1] ?? "")) {
+      return false;
+    }
+
+    for (; p < this.src.length; p++) {
+      const c = this.src[p] as string;
+      if (c === "\n" || (c === "\r" && this.src[p + 1] === "\n")) return false;
+      if (c === "#" && isWhitespace(this.src[p - 1] ?? "")) return false;
+      if (c === ":" && isBlankOrEnd(this.src[p + 1] ?? "")) return true;
+    }
+    return false;
+  }
+
+  private isSequenceEntry(): boolean {
+    return this.ch() === "-" && isBlankOrEnd(this.ch(1));
+  }
+
+  private isDocumentMarker(marker: "---" | "..."): boolean {
+    return (
+      this.column() === 0 &&
+      this.src.startsWith(marker, this.pos) &&
+      isBlankOrEnd(this.src[this.pos + 3] ?? "")
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Low-level scanning
+  // ---------------------------------------------------------------------------
+
+  private ch(ahead = 0): string {
+    return this.src[this.pos + ahead] ?? "";
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.src.length;
+  }
+
+  private atLineEnd(): boolean {
+    const c = this.ch();
+    return c === "" || c === "\n" || (c === "\r" && this.ch(1) === "\n");
+  }
+
+  private consumeLineBreak(): void {
+    if (this.ch() === "\r") this.pos++;
+    if (this.ch() === "\n") this.pos++;
+  }
+
+  private skipSpaces(): void {
+    while (this.ch() === " " || this.ch() === "\t") this.pos++;
+  }
+
+  private skipToLineEnd(): void {
+    while (!this.atLineEnd()) this.pos++;
+  }
+
+  /**
+   * Skip whitespace and a trailing comment on the current line.
+   */
+  private skipSpaceAndComment(): void {
+    this.skipSpaces();
+    if (this.ch() === "#" && (this.column() === 0 || isWhitespace(this.src[this.pos - 1] ?? ""))) {
+      this.skipComment();
+    }
+  }
+
+  /**
+   * Skip a comment starting at the current `#`, recording it.
+   */
+  private skipComment(): void {
+    const start = this.pos;
+    this.skipToLineEnd();
+    if (!this.comments.has(start)) {
+      this.comments.set(start, { text: this.src.slice(start + 1, this.pos), ...this.position(start) });
+    }
+  }
+
+  /**
+   * Skip whitespace, comments and empty lines until the next content.
+   */
+  private skipBlankLines(): void {
+    for (;;) {
+      this.skipSpaceAndComment();
+      if (this.atEnd() || !this.atLineEnd()) return;
+      this.consumeLineBreak();
+    }
+  }
+
+  private skipFlowWhitespace(): void {
+    for (;;) {
+      const c = this.ch();
+      if (c === " " || c === "\t" || c === "\n" || c === "\r") {
+        this.pos++;
+      } else if (c === "#" && isBlankOrEnd(this.src[this.pos - 1] ?? "")) {
+        this.skipComment();
+      } else {
+        return;
+      }
+    }
+  }
+
+  private expectLineEnd(): void {
+    this.skipSpaceAndComment();
+    if (!this.atLineEnd()) this.fail("Unexpected content after value");
+  }
+
+  private checkIndentation(): void {
+    const lineStart = this.lineStartOf(this.pos);
+    if (this.src.slice(lineStart, this.pos).includes("\t")) {
+      this.fail("Tabs are not allowed for indentation", lineStart);
+    }
+  }
+
+  private column(offset: number = this.pos): number {
+    return this.lines.position(offset).column - 1;
+  }
+
+  private lineStartOf(offset: number): number {
+    return offset - this.column(offset);
+  }
+
+  private position(offset: number): { line: number; column: number } {
+    return this.lines.position(offset);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Value construction
+// -----------------------------------------------------------------------------
+
+function toValue(node: YamlNode, cache: Map<YamlNode, unknown>): unknown {
+  if (node.kind === "scalar") return node.value;
+  if (node.kind === "alias") return toValue(node.target, cache);
+
+  const cached = cache.get(node);
+  if (cached !== undefined) return cached;
+
+  if (node.kind === "seq") {
+    const items: unknown[] = [];
+    cache.set(node, items);
+    for (const item of node.items) items.push(toValue(item, cache));
+    return items;
+  }
+
+  const result: Record<string, unknown> = {};
+  cache.set(node, result);
+  const explicit = new Set<string>();
+  const merges: YamlNode[] = [];
+
+  for (const pair of node.pairs) {
+    const key = pair.key.value as string;
+    if (key === "<<" && pair.key.raw === "<<") {
+      merges.push(pair.value);
+      continue;
+    }
+    explicit.add(key);
+    setProperty(result, key, toValue(pair.value, cache));
+  }
+
+  for (const merge of merges) {
+    const target = merge.kind === "alias" ? merge.target : merge;
+    const sources = target.kind === "seq" ? target.items : [target];
+    for (const source of sources) {
+      const value = toValue(source, cache);
+      if (typeof value !== "object" || value === null || Array.isArray(value)) continue;
+      for (const [key, entry] of Object.entries(value)) {
+        if (explicit.has(key)) continue;
+        explicit.add(key);
+        setProperty(result, key, entry);
+      }
+    }
+  }
+
+  return result;
+}
+
+interface NodeIndex {
+  lines: LineIndex;
+  locations: LocationMap;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Record node locations and duplicate keys below a node.
+ */
+function indexNode(
+  node: YamlNode,
+  path: string,
+  key: YamlScalarNode | undefined,
+  index: NodeIndex
+): void {
+  const location: SourceNodeLocation = { value: index.lines.range(node.start, node.end) };
+  if (key) location.key = index.lines.range(key.start, key.end);
+  index.locations.set(path, location);
+
+  if (node.kind === "seq") {
+    node.items.forEach((item, position) => {
+      indexNode(item, childPath(path, position), undefined, index);
+    });
+  } else if (node.kind === "map") {
+    const seen = new Map<string, SourceRange>();
+    for (const pair of node.pairs) {
+      if (pair.key.raw === "<<") continue;
+      const name = pair.key.value as string;
+      const pairPath = childPath(path, name);
+      const keyRange = index.lines.range(pair.key.start, pair.key.end);
+      const first = seen.get(name);
+      if (first) {
+        index.issues.push(duplicateKeyIssue(pairPath, name, first, keyRange));
+        forgetLocations(index.locations, pairPath);
+      } else {
+        seen.set(name, keyRange);
+      }
+      indexNode(pair.value, pairPath, pair.key, index);
+    }
+  }
+}
+
+function setProperty(target: Record<string, unknown>, key: string, value: unknown): void {
+  // Avoid invoking the __proto__ setter for hostile keys
+  Object.defineProperty(target, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true
+  });
+}
+
+function emptyScalar(offset: number): YamlScalarNode {
+  return { kind: "scalar", value: null, raw: "", start: offset, end: offset };
+}
+
+function keyString(value: unknown): string {
+  return value === null ? "null" : String(value);
+}
+
+/**
+ * Resolve a plain scalar using the YAML 1.2 core schema.
+ */
+function resolvePlainScalar(text: string): unknown {
+  if (text === "" || text === "~" || /^(null|Null|NULL)$/.test(text)) return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?[0-9]+$/.test(text)) return Number(text);
+  if (/^0o[0-7]+$/.test(text)) return parseInt(text.slice(2), 8);
+  if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text.slice(2), 16);
+  if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(text)) return Number(text);
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) {
+    return text.startsWith("-") ? -Infinity : Infinity;
+  }
+  if (/^\.(nan|NaN|NAN)$/.test(text)) return NaN;
+  return text;
+}
+
+function foldBlockScalar(
+  lines: string[],
+  folded: boolean,
+  chomping: "clip" | "strip" | "keep"
+): string {
+  let result = "";
+  let emptyLines = 0;
+  let didReadContent = false;
+  let atMoreIndented = false;
+
+  for (const line of lines) {
+    if (line === "") {
+      emptyLines++;
+      continue;
+    }
+
+    if (folded) {
+      if (line.startsWith(" ") || line.startsWith("\t")) {
+        atMoreIndented = true;
+        result += "\n".repeat(didReadContent ? 1 + emptyLines : emptyLines);
+      } else if (atMoreIndented) {
+        atMoreIndented = false;
+        result += "\n".repeat(emptyLines + 1);
+      } else if (emptyLines === 0) {
+        if (didReadContent) result += " ";
+      } else {
+        result += "\n".repeat(emptyLines);
+      }
+    } else {
+      result += "\n".repeat(didReadContent ? 1 + emptyLines : emptyLines);
+    }
+
+    result += line;
+    didReadContent = true;
+    emptyLines = 0;
+  }
+
+  if (chomping === "keep") {
+    result += "\n".repeat(didReadContent ? 1 + emptyLines : emptyLines);
+  } else if (chomping === "clip" && didReadContent) {
+    result += "\n";
+  }
+  return result;
+}
+
+function foldFlowLines(raw: string): string {
+  const lines = raw.split(/\r?\n/).map((line) => line.trim());
+  let result = lines[0] ?? "";
+  let emptyLines = 0;
+  for (const line of lines.slice(1)) {
+    if (line === "") {
+      emptyLines++;
+      continue;
+    }
+    result += emptyLines > 0 ? "\n".repeat(emptyLines) : " ";
+    result += line;
+    emptyLines = 0;
+  }
+  return result;
+}
+
+function isWhitespace(c: string): boolean {
+  return c === " " || c === "\t";
+}
+
+function isBlankOrEnd(c: string): boolean {
+  return c === "" || c === " " || c === "\t" || c === "\n" || c === "\r";
+}
@@ -0,0 +1,167 @@
+import { IssueFix, Severity } from "../types";
+
+/**
+ * Deprecated rule keys. Entries match a key exactly or by regular
+ * expression, and say what replaces the rule and when it goes away:
+ *
+ * ```typescript
+ * { key: "cache-ttl", since: "2.3", replacement: "cache.ttl", removedIn: "3.0" }
+ * { pattern: "^retry-(\\w+)$", since: "2.1", replacement: "retry.$1" }
+ * ```
+ */
+export interface DeprecationEntry {
+  /** Exact rule key. */
+  key?: string;
+  /** Regular expression matched against rule keys, used when no `key` is given. */
+  pattern?: string;
+  /** Version the rule was deprecated in. */
+  since?: string;
+  /** Rule key to use instead; `$1`… refer to groups of `pattern`. */
+  replacement?: string;
+  /** Version the rule is removed in; configs at this version get errors. */
+  removedIn?: string;
+  /** Additional explanation, appended to the issue message. */
+  message?: string;
+}
+
+/**
+ * A deprecation matched against a rule key of a config.
+ */
+export interface DeprecationIssue {
+  message: string;
+  /** "error" once the config version reaches `removedIn`, otherwise undefined. */
+  severity?: Severity;
+  fix?: IssueFix;
+}
+
+/**
+ * Built-in deprecations: rules named with a legacy, old or deprecated
+ * prefix are kept for compatibility only.
+ */
+export const BUILTIN_DEPRECATIONS: DeprecationEntry[] = [
+  {
+    pattern: "^([Ll]egacy|[Oo]ld|[Dd]eprecated)(?![a-z])",
+    message: "Rules with a legacy, old or deprecated prefix are kept for compatibility; migrate to the current rule."
+  }
+];
+
+interface RegisteredDeprecation {
+  entry: DeprecationEntry;
+  regex?: RegExp;
+}
+
+/**
+ * Registry of deprecated rule keys. Exact keys take precedence over
+ * patterns; patterns are tried in registration order.
+ */
+export class DeprecationRegistry {
+  private keys: Map<string, RegisteredDeprecation> = new Map();
+  private patterns: Map<string, RegisteredDeprecation> = new Map();
+
+  /**
+   * Create a registry with the built-in deprecations.
+   */
+  static withDefaults(): DeprecationRegistry {
+    const registry = new DeprecationRegistry();
+    for (const entry of BUILTIN_DEPRECATIONS) registry.register(entry);
+    return registry;
+  }
+
+  /**
+   * Register a deprecation.
+   * @throws Error for entries without a key or pattern, invalid patterns
+   * or versions, and keys or patterns that are already registered
+   */
+  register(entry: DeprecationEntry): void {
+    for (const version of [entry.since, entry.removedIn]) {
+      if (version !== undefined && compareVersions(version, version) === undefined) {
+        throw new Error(`Invalid deprecation version "${version}" for ${entry.key ?? `/${entry.pattern}/`}`);
+      }
+    }
+    if (entry.key !== undefined) {
+      if (this.keys.has(entry.key)) throw new Error(`Deprecation of "${entry.key}" is already registered`);
+      this.keys.set(entry.key, { entry });
+      return;
+    }
+    if (entry.pattern === undefined) throw new Error("Deprecations need a key or a pattern");
+    if (this.patterns.has(entry.pattern)) {
+      throw new Error(`Deprecation pattern /${entry.pattern}/ is already registered`);
+    }
+    let regex: RegExp;
+    try {
+      regex = new RegExp(entry.pattern, "u");
+    } catch {
+      throw new Error(`Invalid deprecation pattern /${entry.pattern}/`);
+    }
+    this.patterns.set(entry.pattern, { entry, regex });
+  }
+
+  /**
+   * Unregister the deprecation of a key or pattern.
+   */
+  unregister(keyOrPattern: string): void {
+    this.keys.delete(keyOrPattern);
+    this.patterns.delete(keyOrPattern);
+  }
+
+  /**
+   * Get all registered deprecations, keys before patterns.
+   */
+  getAll(): DeprecationEntry[] {
+    return [...this.keys.values(), ...this.patterns.values()].map(({ entry }) => entry);
+  }
+
+  /**
+   * Check a rule key, returning the deprecation issue to report or
+   * undefined if the key is not deprecated.
+   * @param configVersion `version` of the config, deciding whether a removal is due
+   * @param ruleKeys All rule keys of the config; replacements are not offered as fixes when taken
+   */
+  check(key: string, configVersion: unknown, ruleKeys: string[]): DeprecationIssue | undefined {
+    const match = this.keys.get(key) ?? Array.from(this.patterns.values()).find(({ regex }) => regex?.test(key));
+    if (!match) return undefined;
+
+    const { entry, regex } = match;
+    const replacement =
+      entry.replacement === undefined ? undefined : regex ? key.replace(regex, entry.replacement) : entry.replacement;
+    const removed =
+      entry.removedIn !== undefined &&
+      typeof configVersion === "string" &&
+      (compareVersions(configVersion, entry.removedIn) ?? -1) >= 0;
+
+    let message = `Rule "${key}" is deprecated${entry.since ? ` since ${entry.since}` : ""}`;
+    message += replacement ? `, use "${replacement}".` : ".";
+    if (entry.removedIn) {
+      message += removed ? ` It was removed in ${entry.removedIn}.` : ` It will be removed in ${entry.removedIn}.`;
+    }
+    if (entry.message) message += ` ${entry.message}`;
+
+    const issue: DeprecationIssue = { message };
+    if (removed) issue.severity = "error";
+    if (replacement !== undefined && replacement !== key && !ruleKeys.includes(replacement)) {
+      issue.fix = {
+        description: `Rename "${key}" to "${replacement}"`,
+        edits: [{ kind: "rename-key", path: `rules.${key}`, key: replacement }]
+      };
+    }
+    return issue;
+  }
+}
+
+/**
+ * Compare the numeric parts of two versions ("2.3" equals "2.3.0"),
+ * ignoring pre-release and build suffixes. Returns undefined if either is
+ * not a version.
+ */
+export function compareVersions(a: string, b: string): number | undefined {
+  const parse = (version: string): number[] | undefined =>
+    /^v?(\d+(?:\.\d+)*)/.exec(version.trim())?.[1]?.split(".").map(Number);
+  const left = parse(a);
+  const right = parse(b);
+  if (!left || !right) return undefined;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) return Math.sign(difference);
+  }
+  return 0;
+}
@@ -0,0 +1,409 @@
+import { isIPv4, isIPv6 } from "node:net";
+import { ValidationIssue } from "../types";
+import { childPath } from "../utils/source-locations";
+import { deepEqual, isObject, typeName } from "../utils/values";
+
+/**
+ * JSON Schema (draft 2020-12) validation of config values.
+ *
+ * Supported keywords: `type`, `enum`, `const`, the numeric bounds,
+ * `minLength`/`maxLength`, `pattern`, `format`, the array keywords
+ * (`items`, `prefixItems`, `contains`, `minItems`, `maxItems`,
+ * `uniqueItems`), the object keywords (`properties`,
+ * `patternProperties`, `additionalProperties`, `propertyNames`,
+ * `required`, `dependentRequired`, `dependentSchemas`, `minProperties`,
+ * `maxProperties`), `allOf`/`anyOf`/`oneOf`/`not`, `if`/`then`/`else`
+ * and `$ref` to `$defs` or anchors in the same schema. Known formats are
+ * asserted; unknown formats and keywords are ignored.
+ */
+
+export type JsonSchema = boolean | { [keyword: string]: unknown };
+
+type SchemaObject = { [keyword: string]: unknown };
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+  "date-time": (value) =>
+    /^\d{4}-\d{2}-\d{2}[Tt]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value) &&
+    isValidDate(value.slice(0, 10)),
+  date: (value) => /^\d{4}-\d{2}-\d{2}$/.test(value) && isValidDate(value),
+  time: (value) => /^([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value),
+  duration: (value) => /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+S)?)?$/.test(value),
+  email: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  hostname: (value) =>
+    value.length <= 253 && /^[A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?(\.[A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?)*$/.test(value),
+  ipv4: (value) => isIPv4(value),
+  ipv6: (value) => isIPv6(value),
+  uri: (value) => /^[A-Za-z][A-Za-z0-9+.-]*:[^\s]*$/.test(value),
+  "uri-reference": (value) => !/\s/.test(value),
+  uuid: (value) => /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/.test(value),
+  regex: (value) => compiles(value)
+};
+
+/**
+ * Validate a value against a JSON Schema. Each violation becomes a
+ * `json-schema/<keyword>` error at the path of the offending value,
+ * below `basePath`; missing required properties use the path they would
+ * have.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, basePath = ""): ValidationIssue[] {
+  return new SchemaValidator(schema).validate(value, schema, basePath);
+}
+
+class SchemaValidator {
+  private readonly root: JsonSchema;
+  private readonly patterns = new Map<string, RegExp | null>();
+  private anchors?: Map<string, JsonSchema>;
+  /** `$ref` targets being applied per path, to stop reference loops. */
+  private readonly active = new Set<string>();
+
+  constructor(root: JsonSchema) {
+    this.root = root;
+  }
+
+  validate(value: unknown, schema: JsonSchema, path: string): ValidationIssue[] {
+    if (schema === true) return [];
+    if (schema === false) return [this.issue(path, "false", "No value is allowed here.")];
+    if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+      return [this.issue(path, "invalid-schema", "Schema must be an object or a boolean.")];
+    }
+
+    return [
+      ...this.validateRef(value, schema, path),
+      ...this.validateGeneric(value, schema, path),
+      ...this.validateApplicators(value, schema, path),
+      ...(typeof value === "number" ? this.validateNumber(value, schema, path) : []),
+      ...(typeof value === "string" ? this.validateString(value, schema, path) : []),
+      ...(Array.isArray(value) ? this.validateArray(value, schema, path) : []),
+      ...(isObject(value) ? this.validateObject(value, schema, path) : [])
+    ];
+  }
+
+  /**
+   * Whether a value matches a schema, for the combinators.
+   */
+  private matches(value: unknown, schema: JsonSchema, path: string): boolean {
+    return this.validate(value, schema, path).length === 0;
+  }
+
+  private validateRef(value: unknown, schema: SchemaObject, path: string): ValidationIssue[] {
+    const ref = schema.$ref;
+    if (typeof ref !== "string") return [];
+
+    const target = this.resolveRef(ref);
+    if (target === undefined) return [this.issue(path, "ref", `Cannot resolve $ref "${ref}".`)];
+
+    // A reference reached again at the same path cannot make progress
+    const key = `${ref}\u0000${path}`;
+    if (this.active.has(key)) return [];
+    this.active.add(key);
+    try {
+      return this.validate(value, target, path);
+    } finally {
+      this.active.delete(key);
+    }
+  }
+
+  /**
+   * Resolve `#`, `#/json/pointer` and `#anchor` references within the
+   * root schema.
+   */
+  private resolveRef(ref: string): JsonSchema | undefined {
+    if (!ref.startsWith("#")) return undefined;
+    const fragment = decodeURIComponent(ref.slice(1));
+    if (fragment === "") return this.root;
+
+    if (!fragment.startsWith("/")) {
+      this.anchors ??= collectAnchors(this.root);
+      return this.anchors.get(fragment);
+    }
+
+    let node: unknown = this.root;
+    for (const token of fragment.slice(1).split("/")) {
+      const key = token.replace(/~1/g, "/").replace(/~0/g, "~");
+      if (typeof node !== "object" || node === null || !Object.prototype.hasOwnProperty.call(node, key)) {
+        return undefined;
+      }
+      node = (node as Record<string, unknown>)[key];
+    }
+    return typeof node === "boolean" || isObject(node) ? (node as JsonSchema) : undefined;
+  }
+
+  private validateGeneric(value: unknown, schema: SchemaObject, path: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some((type) => hasType(value, type))) {
+        issues.push(this.issue(path, "type", `Expected ${types.join(" or ")} but found ${typeName(value)}.`));
+      }
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.some((allowed) => deepEqual(allowed, value))) {
+      const allowed = schema.enum.map((entry) => JSON.stringify(entry)).join(", ");
+      issues.push(this.issue(path, "enum", `Value must be one of: ${allowed}.`));
+    }
+    if ("const" in schema && !deepEqual(schema.const, value)) {
+      issues.push(this.issue(path, "const", `Value must be ${JSON.stringify(schema.const)}.`));
+    }
+    return issues;
+  }
+
+  private validateApplicators(value: unknown, schema: SchemaObject, path: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    if (Array.isArray(schema.allOf)) {
+      for (const sub of schema.allOf as JsonSchema[]) issues.push(...this.validate(value, sub, path));
+    }
+    if (Array.isArray(schema.anyOf)) {
+      const branches = schema.anyOf as JsonSchema[];
+      if (!branches.some((sub) => this.matches(value, sub, path))) {
+        issues.push(this.issue(path, "anyOf", "Value does not match any of the allowed schemas."));
+      }
+    }
+    if (Array.isArray(schema.oneOf)) {
+      const matched = (schema.oneOf as JsonSchema[]).filter((sub) => this.matches(value, sub, path)).length;
+      if (matched !== 1) {
+        issues.push(
+          this.issue(
+            path,
+            "oneOf",
+            matched === 0
+              ? "Value does not match any of the allowed schemas."
+              : `Value matches ${matched} schemas but must match exactly one.`
+          )
+        );
+      }
+    }
+    if (schema.not !== undefined && this.matches(value, schema.not as JsonSchema, path)) {
+      issues.push(this.issue(path, "not", "Value matches a schema it must not match."));
+    }
+    if (schema.if !== undefined) {
+      const branch = this.matches(value, schema.if as JsonSchema, path) ? schema.then : schema.else;
+      if (branch !== undefined) issues.push(...this.validate(value, branch as JsonSchema, path));
+    }
+    return issues;
+  }
+
+  private validateNumber(value: number, schema: SchemaObject, path: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } = schema;
+
+    if (typeof minimum === "number" && value < minimum) {
+      issues.push(this.issue(path, "minimum", `Value must be at least ${minimum}.`));
+    }
+    if (typeof maximum === "number" && value > maximum) {
+      issues.push(this.issue(path, "maximum", `Value must be at most ${maximum}.`));
+    }
+    if (typeof exclusiveMinimum === "number" && value <= exclusiveMinimum) {
+      issues.push(this.issue(path, "exclusiveMinimum", `Value must be greater than ${exclusiveMinimum}.`));
+    }
+    if (typeof exclusiveMaximum === "number" && value >= exclusiveMaximum) {
+      issues.push(this.issue(path, "exclusiveMaximum", `Value must be less than ${exclusiveMaximum}.`));
+    }
+    if (typeof multipleOf === "number" && multipleOf > 0) {
+      const quotient = value / multipleOf;
+      // Tolerate floating point error, e.g. 0.3 / 0.1
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        issues.push(this.issue(path, "multipleOf", `Value must be a multiple of ${multipleOf}.`));
+      }
+    }
+    return issues;
+  }
+
+  private validateString(value: string, schema: SchemaObject, path: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    // Lengths count code points, not UTF-16 units
+    const length = Array.from(value).length;
+
+    if (typeof schema.minLength === "number" && length < schema.minLength) {
+      issues.push(this.issue(path, "minLength", `String must have at least ${schema.minLength} characters.`));
+    }
+    if (typeof schema.maxLength === "number" && length > schema.maxLength) {
+      issues.push(this.issue(path, "maxLength", `String must have at most ${schema.maxLength} characters.`));
+    }
+    if (typeof schema.pattern === "string") {
+      const pattern = this.pattern(schema.pattern);
+      if (!pattern) {
+        issues.push(this.issue(path, "invalid-schema", `Invalid pattern "${schema.pattern}".`));
+      } else if (!pattern.test(value)) {
+        issues.push(this.issue(path, "pattern", `String must match the pattern "${schema.pattern}".`));
+      }
+    }
+    if (typeof schema.format === "string") {
+      const check = FORMATS[schema.format];
+      if (check && !check(value)) {
+        issues.push(this.issue(path, "format", `String is not a valid ${schema.format}.`));
+      }
+    }
+    return issues;
+  }
+
+  private validateArray(value: unknown[], schema: SchemaObject, path: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const prefix = Array.isArray(schema.prefixItems) ? (schema.prefixItems as JsonSchema[]) : [];
+
+    value.forEach((item, index) => {
+      const itemSchema = index < prefix.length ? prefix[index] : (schema.items as JsonSchema | undefined);
+      if (itemSchema !== undefined) issues.push(...this.validate(item, itemSchema, childPath(path, index)));
+    });
+
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      issues.push(this.issue(path, "minItems", `Array must have at least ${schema.minItems} items.`));
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      issues.push(this.issue(path, "maxItems", `Array must have at most ${schema.maxItems} items.`));
+    }
+    if (schema.uniqueItems === true) {
+      const duplicate = value.findIndex((item, index) => value.slice(0, index).some((other) => deepEqual(other, item)));
+      if (duplicate !== -1) {
+        issues.push(this.issue(childPath(path, duplicate), "uniqueItems", "Array items must be unique."));
+      }
+    }
+    if (schema.contains !== undefined) {
+      const contains = schema.contains as JsonSchema;
+      const count = value.filter((item, index) => this.matches(item, contains, childPath(path, index))).length;
+      const min = typeof schema.minContains === "number" ? schema.minContains : 1;
+      if (count < min) {
+        issues.push(
+          this.issue(path, "contains", `Array must contain at least ${min} matching item${min === 1 ? "" : "s"}.`)
+        );
+      }
+      if (typeof schema.maxContains === "number" && count > schema.maxContains) {
+        issues.push(this.issue(path, "maxContains", `Array must contain at most ${schema.maxContains} matching items.`));
+      }
+    }
+    return issues;
+  }
+
+  private validateObject(value: Record<string, unknown>, schema: SchemaObject, path: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const keys = Object.keys(value);
+    const properties = isObject(schema.properties) ? (schema.properties as Record<string, JsonSchema>) : {};
+    const patternProperties = isObject(schema.patternProperties)
+      ? (schema.patternProperties as Record<string, JsonSchema>)
+      : {};
+
+    for (const key of keys) {
+      const keyPath = childPath(path, key);
+      let evaluated = false;
+
+      if (Object.prototype.hasOwnProperty.call(properties, key)) {
+        evaluated = true;
+        issues.push(...this.validate(value[key], properties[key] as JsonSchema, keyPath));
+      }
+      for (const [source, sub] of Object.entries(patternProperties)) {
+        const pattern = this.pattern(source);
+        if (pattern?.test(key)) {
+          evaluated = true;
+          issues.push(...this.validate(value[key], sub, keyPath));
+        }
+      }
+      if (!evaluated && schema.additionalProperties !== undefined) {
+        if (schema.additionalProperties === false) {
+          issues.push(this.issue(keyPath, "additionalProperties", `Property "${key}" is not allowed.`));
+        } else {
+          issues.push(...this.validate(value[key], schema.additionalProperties as JsonSchema, keyPath));
+        }
+      }
+      if (schema.propertyNames !== undefined && !this.matches(key, schema.propertyNames as JsonSchema, keyPath)) {
+        issues.push(this.issue(keyPath, "propertyNames", `Property name "${key}" is not allowed.`));
+      }
+    }
+
+    if (Array.isArray(schema.required)) {
+      for (const name of schema.required as string[]) {
+        if (!Object.prototype.hasOwnProperty.call(value, name)) {
+          issues.push(this.issue(childPath(path, name), "required", `Property "${name}" is required.`));
+        }
+      }
+    }
+    if (isObject(schema.dependentRequired)) {
+      for (const [trigger, names] of Object.entries(schema.dependentRequired as Record<string, string[]>)) {
+        if (!Object.prototype.hasOwnProperty.call(value, trigger) || !Array.isArray(names)) continue;
+        for (const name of names) {
+          if (!Object.prototype.hasOwnProperty.call(value, name)) {
+            issues.push(
+              this.issue(childPath(path, name), "dependentRequired", `Property "${name}" is required when "${trigger}" is set.`)
+            );
+          }
+        }
+      }
+    }
+    if (isObject(schema.dependentSchemas)) {
+      for (const [trigger, sub] of Object.entries(schema.dependentSchemas as Record<string, JsonSchema>)) {
+        if (Object.prototype.hasOwnProperty.call(value, trigger)) issues.push(...this.validate(value, sub, path));
+      }
+    }
+    if (typeof schema.minProperties === "number" && keys.length < schema.minProperties) {
+      issues.push(this.issue(path, "minProperties", `Object must have at least ${schema.minProperties} properties.`));
+    }
+    if (typeof schema.maxProperties === "number" && keys.length > schema.maxProperties) {
+      issues.push(this.issue(path, "maxProperties", `Object must have at most ${schema.maxProperties} properties.`));
+    }
+    return issues;
+  }
+
+  /**
+   * Compile a schema pattern once; null marks an invalid one.
+   */
+  private pattern(source: string): RegExp | null {
+    let pattern = this.patterns.get(source);
+    if (pattern === undefined) {
+      pattern = compiles(source) ? new RegExp(source, "u") : null;
+      this.patterns.set(source, pattern);
+    }
+    return pattern;
+  }
+
+  private issue(path: string, keyword: string, message: string): ValidationIssue {
+    return { path: path || "$file", message, severity: "error", rule: `json-schema/${keyword}` };
+  }
+}
+
+/**
+ * Map the `$anchor` names of a schema to their subschemas.
+ */
+function collectAnchors(schema: unknown, anchors = new Map<string, JsonSchema>()): Map<string, JsonSchema> {
+  if (Array.isArray(schema)) {
+    for (const item of schema) collectAnchors(item, anchors);
+  } else if (isObject(schema)) {
+    if (typeof schema.$anchor === "string") anchors.set(schema.$anchor, schema);
+    for (const item of Object.values(schema)) collectAnchors(item, anchors);
+  }
+  return anchors;
+}
+
+function hasType(value: unknown, type: unknown): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "boolean":
+      return typeof value === "boolean";
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number";
+    case "string":
+      return typeof value === "string";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isObject(value);
+    default:
+      return false;
+  }
+}
+
+function isValidDate(value: string): boolean {
+  const [year, month, day] = value.split("-").map(Number) as [number, number, number];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function compiles(source: string): boolean {
+  try {
+    new RegExp(source, "u");
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,116 @@
+import { ValidationIssue } from "../types";
+import { childPath } from "../utils/source-locations";
+import { hasKind, ValueKind } from "./rule-catalog";
+
+/**
+ * The metadata contract: which `metadata` fields a config must set and
+ * what their values must look like. Each part is the `fields` option of
+ * one ruleset check, so rulesets can enable, reconfigure and grade them
+ * separately:
+ *
+ * ```yaml
+ * checks:
+ *   metadata/missing-field: { options: { fields: [owner, team, tier] } }
+ *   metadata/type: { options: { fields: { owner: string, team: string } } }
+ *   metadata/enum: { options: { fields: { tier: [critical, standard, best-effort] } } }
+ *   metadata/pattern: { options: { fields: { contact: "^[^@\\s]+@[^@\\s]+\\.[^@\\s]+$" } } }
+ * ```
+ */
+export interface MetadataContract {
+  /** Fields that must be set to a non-empty value. */
+  required?: string[];
+  /** Value kinds of fields. */
+  types?: Record<string, ValueKind>;
+  /** Allowed values of fields. */
+  enums?: Record<string, Array<string | number | boolean>>;
+  /** Regular expressions string fields must match. */
+  patterns?: Record<string, string>;
+}
+
+/** Ruleset checks holding each part of the contract. */
+export const METADATA_CONTRACT_CHECKS: Record<keyof MetadataContract, string> = {
+  required: "metadata/missing-field",
+  types: "metadata/type",
+  enums: "metadata/enum",
+  patterns: "metadata/pattern"
+};
+
+const VALUE_KINDS = new Set(["boolean", "integer", "number", "string", "string[]"]);
+
+/**
+ * Check the `fields` option of a metadata check, returning a description
+ * of the problem or undefined if it is valid.
+ */
+export function metadataOptionError(id: string, fields: unknown): string | undefined {
+  if (fields === undefined) return undefined;
+  if (id === METADATA_CONTRACT_CHECKS.required) {
+    const ok = Array.isArray(fields) && fields.every((field) => typeof field === "string");
+    return ok ? undefined : "fields must be a list of field names";
+  }
+  if (typeof fields !== "object" || fields === null || Array.isArray(fields)) {
+    return "fields must be an object keyed by field name";
+  }
+  for (const [field, expected] of Object.entries(fields)) {
+    if (id === METADATA_CONTRACT_CHECKS.types && !VALUE_KINDS.has(expected as string)) {
+      return `field "${field}" has unknown type "${String(expected)}" (expected ${[...VALUE_KINDS].join(", ")})`;
+    }
+    if (id === METADATA_CONTRACT_CHECKS.enums && !Array.isArray(expected)) {
+      return `field "${field}" must list its allowed values`;
+    }
+    if (id === METADATA_CONTRACT_CHECKS.patterns) {
+      try {
+        new RegExp(expected as string, "u");
+      } catch {
+        return `field "${field}" has an invalid pattern`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check config metadata against a contract, reporting
+ * `metadata/missing-field`, `metadata/type`, `metadata/enum` and
+ * `metadata/pattern` issues. A field of the wrong type is not checked
+ * further.
+ */
+export function checkMetadata(
+  metadata: Record<string, unknown> | undefined,
+  contract: MetadataContract
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const fields = metadata ?? {};
+  const report = (part: keyof MetadataContract, field: string, message: string): void => {
+    const rule = METADATA_CONTRACT_CHECKS[part];
+    issues.push({ path: childPath("metadata", field), message, severity: "error", rule });
+  };
+
+  for (const field of contract.required ?? []) {
+    const value = Object.prototype.hasOwnProperty.call(fields, field) ? fields[field] : undefined;
+    if (value === undefined || value === null || value === "") {
+      report("required", field, `Metadata field "${field}" is required.`);
+    }
+  }
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (value === undefined || value === null) continue;
+    const kind = contract.types?.[field];
+    if (kind && !hasKind(value, kind)) {
+      const expected = kind === "string[]" ? "a list of strings" : `${kind === "integer" ? "an" : "a"} ${kind}`;
+      report("types", field, `Metadata field "${field}" must be ${expected}, got ${JSON.stringify(value)}.`);
+      continue;
+    }
+
+    const allowed = contract.enums?.[field];
+    if (allowed && !allowed.includes(value as string | number | boolean)) {
+      const list = allowed.map((item) => JSON.stringify(item)).join(", ");
+      report("enums", field, `Metadata field "${field}" must be one of ${list}, got ${JSON.stringify(value)}.`);
+    }
+
+    const pattern = contract.patterns?.[field];
+    if (pattern !== undefined && !(typeof value === "string" && new RegExp(pattern, "u").test(value))) {
+      report("patterns", field, `Metadata field "${field}" must match /${pattern}/, got ${JSON.stringify(value)}.`);
+    }
+  }
+  return issues;
+}
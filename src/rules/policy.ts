@@ -0,0 +1,353 @@
+import { HelixConfig, Severity, ValidationIssue } from "../types";
+import { childPath } from "../utils/source-locations";
+import { deepEqual, isObject, typeName } from "../utils/values";
+
+/**
+ * Declarative policies: checks over selected config values, declared in
+ * a policy file instead of a plugin.
+ *
+ * ```yaml
+ * policies:
+ *   - id: max-timeout
+ *     select: rules.*.timeout
+ *     assert: { lte: 300 }
+ *   - id: audit-in-prod
+ *     when: { path: metadata.env, eq: prod }
+ *     select: rules.audit.enabled
+ *     required: true
+ *     assert: { eq: true }
+ *     message: Production configs must enable auditing.
+ * ```
+ *
+ * Selectors are dotted paths (`rules.audit.enabled`) with `*` for any key
+ * or array item, `**` for any number of levels, and `[0]` or `['a.b']`
+ * for indexes and keys containing dots; a leading `$.` is optional.
+ */
+
+/** Comparisons a selected value must satisfy; all given ones apply. */
+export interface PolicyComparisons {
+  eq?: unknown;
+  ne?: unknown;
+  lt?: number;
+  lte?: number;
+  gt?: number;
+  gte?: number;
+  in?: unknown[];
+  notIn?: unknown[];
+  /** Regular expression a string must match. */
+  matches?: string;
+  type?: "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+}
+
+/**
+ * A condition on the config: holds if a value selected by `path`
+ * satisfies the comparisons, or, with `exists`, if the path does (not)
+ * select a value.
+ */
+export interface PolicyCondition extends PolicyComparisons {
+  path: string;
+  exists?: boolean;
+}
+
+export interface PolicyDefinition {
+  /** Identifier; issues are reported as `policy/<id>`. */
+  id: string;
+  /** Values the policy applies to. */
+  select: string;
+  /** Conditions that must all hold for the policy to apply. */
+  when?: PolicyCondition | PolicyCondition[];
+  /** Report a missing key at the end of the selector, or its nearest missing parent. */
+  required?: boolean;
+  /** Report every selected value. */
+  forbidden?: boolean;
+  /** Comparisons every selected value must satisfy. */
+  assert?: PolicyComparisons;
+  /** Issue message; `{path}` and `{value}` are replaced (default: describes the violation). */
+  message?: string;
+  /** Issue severity (default "error"). */
+  severity?: Severity;
+}
+
+type Segment = { kind: "key"; name: string } | { kind: "index"; index: number } | { kind: "any" } | { kind: "deep" };
+
+interface CompiledCondition {
+  selector: Segment[];
+  exists?: boolean;
+  comparisons: PolicyComparisons;
+}
+
+/**
+ * A policy with its selectors parsed and its comparisons checked.
+ */
+export interface CompiledPolicy {
+  definition: PolicyDefinition;
+  selector: Segment[];
+  when: CompiledCondition[];
+}
+
+const COMPARISONS = ["eq", "ne", "lt", "lte", "gt", "gte", "in", "notIn", "matches", "type"] as const;
+const TYPES = new Set(["string", "number", "integer", "boolean", "object", "array", "null"]);
+const POLICY_KEYS = new Set(["id", "select", "when", "required", "forbidden", "assert", "message", "severity"]);
+
+/**
+ * Check and compile policy definitions.
+ * @throws Error describing the first malformed policy
+ */
+export function compilePolicies(definitions: PolicyDefinition[]): CompiledPolicy[] {
+  const ids = new Set<string>();
+  return definitions.map((definition, index) => {
+    if (!isObject(definition)) throw new Error(`Policy ${index} must be an object`);
+    const where = `Policy "${String(definition.id ?? index)}"`;
+    if (typeof definition.id !== "string" || !/^[\w.-]+$/.test(definition.id)) {
+      throw new Error(`${where}: id must consist of letters, digits, "_", "-" and "."`);
+    }
+    if (ids.has(definition.id)) throw new Error(`${where} is declared twice`);
+    ids.add(definition.id);
+    for (const key of Object.keys(definition)) {
+      if (!POLICY_KEYS.has(key)) throw new Error(`${where}: unknown property "${key}"`);
+    }
+    if (definition.severity !== undefined && !["error", "warn", "info"].includes(definition.severity)) {
+      throw new Error(`${where}: severity must be error, warn or info`);
+    }
+    if (definition.message !== undefined && typeof definition.message !== "string") {
+      throw new Error(`${where}: message must be a string`);
+    }
+    if (!definition.required && !definition.forbidden && definition.assert === undefined) {
+      throw new Error(`${where} needs required, forbidden or assert`);
+    }
+
+    const selector = parseSelector(definition.select, where);
+    if (definition.required && selector[selector.length - 1]?.kind !== "key") {
+      throw new Error(`${where}: required needs a selector ending in a key`);
+    }
+    if (definition.assert !== undefined) checkComparisons(definition.assert, `${where}: assert`);
+
+    const conditions = definition.when === undefined ? [] : ([] as PolicyCondition[]).concat(definition.when);
+    const when = conditions.map((condition): CompiledCondition => {
+      if (!isObject(condition)) throw new Error(`${where}: conditions must be objects`);
+      const { path, exists, ...comparisons } = condition;
+      if (exists !== undefined && typeof exists !== "boolean") throw new Error(`${where}: exists must be a boolean`);
+      checkComparisons(comparisons, `${where}: when`);
+      return { selector: parseSelector(path, where), exists, comparisons };
+    });
+
+    return { definition, selector, when };
+  });
+}
+
+/**
+ * Read and compile the policies declared in a policy file under a
+ * `policies` list.
+ * @throws Error describing the first malformed policy
+ */
+export function parsePolicyFile(content: unknown, filePath: string): CompiledPolicy[] {
+  const policies = isObject(content) ? content.policies : undefined;
+  if (!Array.isArray(policies)) {
+    throw new Error(`${filePath}: expected a "policies" list`);
+  }
+  try {
+    return compilePolicies(policies as PolicyDefinition[]);
+  } catch (error) {
+    throw new Error(`${filePath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Run compiled policies against a config.
+ */
+export function evaluatePolicies(config: HelixConfig, policies: CompiledPolicy[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const { definition, selector, when } of policies) {
+    if (!when.every((condition) => conditionHolds(config, condition))) continue;
+    const report = (path: string, value: unknown, fallback: string): void => {
+      const message = definition.message
+        ?.replace(/\{path\}/g, path)
+        .replace(/\{value\}/g, describeValue(value));
+      issues.push({
+        path,
+        message: message ?? fallback,
+        severity: definition.severity ?? "error",
+        rule: `policy/${definition.id}`
+      });
+    };
+
+    if (definition.required) {
+      for (const path of missingPaths(config, selector)) report(path, undefined, `${path} is required.`);
+    }
+
+    for (const match of select(config, selector)) {
+      if (definition.forbidden) {
+        report(match.path, match.value, `${match.path} is not allowed.`);
+        continue;
+      }
+      const failure = definition.assert && failedComparison(match.value, definition.assert);
+      if (failure) report(match.path, match.value, `${match.path} must ${failure}, got ${describeValue(match.value)}.`);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Parse a selector into segments.
+ * @throws Error for empty or malformed selectors
+ */
+function parseSelector(selector: unknown, where: string): Segment[] {
+  if (typeof selector !== "string" || selector.trim() === "") {
+    throw new Error(`${where}: selectors must be non-empty strings`);
+  }
+  const fail = (reason: string): never => {
+    throw new Error(`${where}: invalid selector "${selector}": ${reason}`);
+  };
+
+  const source = selector.replace(/^\$\.?/, "");
+  const segments: Segment[] = [];
+  let pos = 0;
+  while (pos < source.length) {
+    if (source[pos] === "[") {
+      const end = source.indexOf("]", pos);
+      if (end === -1) fail("unclosed [");
+      const inner = source.slice(pos + 1, end).trim();
+      if (inner === "*") segments.push({ kind: "any" });
+      else if (/^\d+$/.test(inner)) segments.push({ kind: "index", index: Number(inner) });
+      else if (/^'[^']*'$|^"[^"]*"$/.test(inner)) segments.push({ kind: "key", name: inner.slice(1, -1) });
+      else fail(`expected *, an index or a quoted key in [${inner}]`);
+      pos = end + 1;
+    } else {
+      let end = pos;
+      while (end < source.length && source[end] !== "." && source[end] !== "[") end++;
+      const name = source.slice(pos, end);
+      if (name === "") fail("empty key");
+      segments.push(name === "**" ? { kind: "deep" } : name === "*" ? { kind: "any" } : { kind: "key", name });
+      pos = end;
+    }
+    if (source[pos] === ".") {
+      pos++;
+      if (pos === source.length) fail("trailing .");
+    }
+  }
+  if (segments.length === 0) fail("no segments");
+  return segments;
+}
+
+/**
+ * Values selected by a selector, with their issue paths.
+ */
+function select(root: unknown, segments: Segment[]): Array<{ path: string; value: unknown }> {
+  const matches = new Map<string, unknown>();
+  const walk = (value: unknown, path: string, index: number): void => {
+    const segment = segments[index];
+    if (!segment) {
+      matches.set(path, value);
+      return;
+    }
+    if (segment.kind === "deep") walk(value, path, index + 1);
+    for (const [key, child] of children(value)) {
+      if (
+        segment.kind === "deep" ||
+        segment.kind === "any" ||
+        (segment.kind === "key" && key === segment.name && !Array.isArray(value)) ||
+        (segment.kind === "index" && key === segment.index)
+      ) {
+        walk(child, childPath(path, key), segment.kind === "deep" ? index : index + 1);
+      }
+    }
+  };
+  walk(root, "", 0);
+  return Array.from(matches, ([path, value]) => ({ path, value }));
+}
+
+/**
+ * Paths a `required` selector finds missing. The selector ends in plain
+ * keys; for each value matched by the part before them, the nearest
+ * missing key along them is reported, so `rules.audit.enabled` reports
+ * `rules.audit` when the config has no audit rule at all.
+ */
+function missingPaths(root: unknown, segments: Segment[]): string[] {
+  let start = segments.length;
+  while (start > 0 && segments[start - 1]?.kind === "key") start--;
+  const keys = segments.slice(start) as Array<{ kind: "key"; name: string }>;
+
+  const missing: string[] = [];
+  for (const parent of select(root, segments.slice(0, start))) {
+    let { path, value } = parent;
+    for (const { name } of keys) {
+      // Values of other types are left to type checks
+      if (!isObject(value)) break;
+      path = childPath(path, name);
+      if (!Object.prototype.hasOwnProperty.call(value, name)) {
+        missing.push(path);
+        break;
+      }
+      value = value[name];
+    }
+  }
+  return missing;
+}
+
+function children(value: unknown): Array<[string | number, unknown]> {
+  if (Array.isArray(value)) return value.map((item, index) => [index, item]);
+  if (isObject(value)) return Object.entries(value);
+  return [];
+}
+
+function conditionHolds(config: HelixConfig, condition: CompiledCondition): boolean {
+  const matches = select(config, condition.selector);
+  if (condition.exists !== undefined && (matches.length > 0) !== condition.exists) return false;
+  if (Object.keys(condition.comparisons).length === 0) return condition.exists !== undefined || matches.length > 0;
+  return matches.some((match) => failedComparison(match.value, condition.comparisons) === undefined);
+}
+
+function checkComparisons(comparisons: unknown, where: string): void {
+  if (!isObject(comparisons)) throw new Error(`${where} must be an object`);
+  for (const [op, operand] of Object.entries(comparisons)) {
+    if (!(COMPARISONS as readonly string[]).includes(op)) {
+      throw new Error(`${where}: unknown comparison "${op}" (expected ${COMPARISONS.join(", ")})`);
+    }
+    if (["lt", "lte", "gt", "gte"].includes(op) && typeof operand !== "number") {
+      throw new Error(`${where}: ${op} needs a number`);
+    }
+    if ((op === "in" || op === "notIn") && !Array.isArray(operand)) throw new Error(`${where}: ${op} needs a list`);
+    if (op === "type" && !TYPES.has(operand as string)) throw new Error(`${where}: unknown type "${String(operand)}"`);
+    if (op === "matches") {
+      try {
+        new RegExp(operand as string, "u");
+      } catch {
+        throw new Error(`${where}: matches needs a valid regular expression`);
+      }
+    }
+  }
+}
+
+/**
+ * Describe the first comparison a value fails, or undefined if it
+ * satisfies them all.
+ */
+function failedComparison(value: unknown, comparisons: PolicyComparisons): string | undefined {
+  const { eq, ne, lt, lte, gt, gte, matches, type } = comparisons;
+  if ("eq" in comparisons && !deepEqual(value, eq)) return `equal ${describeValue(eq)}`;
+  if ("ne" in comparisons && deepEqual(value, ne)) return `not equal ${describeValue(ne)}`;
+  const number = typeof value === "number" ? value : undefined;
+  if (lt !== undefined && !(number !== undefined && number < lt)) return `be less than ${lt}`;
+  if (lte !== undefined && !(number !== undefined && number <= lte)) return `be at most ${lte}`;
+  if (gt !== undefined && !(number !== undefined && number > gt)) return `be greater than ${gt}`;
+  if (gte !== undefined && !(number !== undefined && number >= gte)) return `be at least ${gte}`;
+  if (comparisons.in && !comparisons.in.some((item) => deepEqual(value, item))) {
+    return `be one of ${comparisons.in.map(describeValue).join(", ")}`;
+  }
+  if (comparisons.notIn?.some((item) => deepEqual(value, item))) {
+    return `not be one of ${comparisons.notIn.map(describeValue).join(", ")}`;
+  }
+  if (matches !== undefined && !(typeof value === "string" && new RegExp(matches, "u").test(value))) {
+    return `match /${matches}/`;
+  }
+  if (type !== undefined && typeName(value) !== type && !(type === "number" && typeName(value) === "integer")) {
+    return `be ${type === "array" || type === "object" || type === "integer" ? "an" : "a"} ${type}`;
+  }
+  return undefined;
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) return "nothing";
+  return JSON.stringify(value) ?? String(value);
+}
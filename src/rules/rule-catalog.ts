@@ -0,0 +1,199 @@
+import { ValidationIssue } from "../types";
+
+export type ValueKind = "boolean" | "integer" | "number" | "string" | "string[]";
+
+/**
+ * Shape of a scalar value: its kind and, for numbers, an inclusive range.
+ */
+export interface ValueShape {
+  kind: ValueKind;
+  min?: number;
+  max?: number;
+  /** Allowed values of a string. */
+  values?: readonly string[];
+}
+
+export interface FieldShape extends ValueShape {
+  required?: boolean;
+}
+
+/**
+ * A rule whose value is a scalar (`allowParallel: true`), or an object
+ * with declared fields (`retry: { enabled: true, attempts: 3 }`). Object
+ * rules reject fields they do not declare.
+ */
+export type RuleDefinition =
+  | (ValueShape & { description: string })
+  | { kind: "object"; description: string; fields: Record<string, FieldShape> };
+
+/**
+ * Declared shapes of known rules, keyed by rule name. Rules missing from
+ * the catalog are not checked beyond the generic ruleset checks.
+ */
+export type RuleCatalog = Record<string, RuleDefinition>;
+
+/** Fields shared by the built-in object rules. */
+const COMMON_FIELDS: Record<string, FieldShape> = {
+  enabled: { kind: "boolean", required: true },
+  priority: { kind: "integer", min: 0, max: 100 }
+};
+
+/**
+ * Built-in rule definitions.
+ */
+export const RULE_CATALOG: RuleCatalog = {
+  allowParallel: { kind: "boolean", description: "Allow checks to run in parallel." },
+  maxLatencyMs: { kind: "integer", min: 0, description: "Latency budget in milliseconds." },
+  retry: {
+    kind: "object",
+    description: "Retry failed operations.",
+    fields: {
+      ...COMMON_FIELDS,
+      attempts: { kind: "integer", min: 1, max: 10 },
+      backoffMs: { kind: "integer", min: 0 }
+    }
+  },
+  "rate-limit": {
+    kind: "object",
+    description: "Limit the request rate per target.",
+    fields: {
+      ...COMMON_FIELDS,
+      requestsPerMinute: { kind: "integer", min: 1, required: true },
+      targets: { kind: "string[]" }
+    }
+  },
+  "access-control": {
+    kind: "object",
+    description: "Restrict which targets may be accessed.",
+    fields: {
+      ...COMMON_FIELDS,
+      mode: { kind: "string", values: ["allow", "deny"] },
+      targets: { kind: "string[]", required: true }
+    }
+  }
+};
+
+/**
+ * Check a rule value against its definition, reporting
+ * `ruleset/rule-type`, `ruleset/rule-range`, `ruleset/rule-missing-field`
+ * and `ruleset/rule-unknown-field` issues.
+ */
+export function checkRuleValue(key: string, value: unknown, definition: RuleDefinition): ValidationIssue[] {
+  const path = `rules.${key}`;
+  if (definition.kind !== "object") {
+    return checkValue(path, `Rule "${key}"`, value, definition);
+  }
+
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [typeIssue(path, `Rule "${key}"`, "object", value)];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const fields = value as Record<string, unknown>;
+  for (const [name, field] of Object.entries(definition.fields)) {
+    if (fields[name] === undefined) {
+      if (field.required) {
+        issues.push({
+          path: `${path}.${name}`,
+          message: `Rule "${key}" requires field "${name}" (${describeShape(field)}).`,
+          severity: "error",
+          rule: "ruleset/rule-missing-field"
+        });
+      }
+      continue;
+    }
+    issues.push(...checkValue(`${path}.${name}`, `Field "${name}" of rule "${key}"`, fields[name], field));
+  }
+
+  for (const name of Object.keys(fields)) {
+    if (!Object.prototype.hasOwnProperty.call(definition.fields, name)) {
+      issues.push({
+        path: `${path}.${name}`,
+        message: `Rule "${key}" has no field "${name}". Known fields: ${Object.keys(definition.fields).join(", ")}.`,
+        severity: "error",
+        rule: "ruleset/rule-unknown-field"
+      });
+    }
+  }
+  return issues;
+}
+
+function checkValue(path: string, subject: string, value: unknown, shape: ValueShape): ValidationIssue[] {
+  if (!hasKind(value, shape.kind)) {
+    return [typeIssue(path, subject, describeShape(shape), value)];
+  }
+
+  if (typeof value === "number" && !inRange(value, shape)) {
+    return [
+      {
+        path,
+        message: `${subject} must be ${describeRange(shape)}, got ${value}.`,
+        severity: "error",
+        rule: "ruleset/rule-range"
+      }
+    ];
+  }
+  if (typeof value === "string" && shape.values && !shape.values.includes(value)) {
+    return [
+      {
+        path,
+        message: `${subject} must be one of ${shape.values.map((v) => `"${v}"`).join(", ")}, got "${value}".`,
+        severity: "error",
+        rule: "ruleset/rule-range"
+      }
+    ];
+  }
+  return [];
+}
+
+function typeIssue(path: string, subject: string, expected: string, value: unknown): ValidationIssue {
+  return {
+    path,
+    message: `${subject} must be ${expected}, got ${describeValue(value)}.`,
+    severity: "error",
+    rule: "ruleset/rule-type"
+  };
+}
+
+/**
+ * Whether a value is of the given kind.
+ */
+export function hasKind(value: unknown, kind: ValueKind): boolean {
+  switch (kind) {
+    case "boolean":
+      return typeof value === "boolean";
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "string":
+      return typeof value === "string";
+    case "string[]":
+      return Array.isArray(value) && value.every((item) => typeof item === "string");
+  }
+}
+
+function inRange(value: number, shape: ValueShape): boolean {
+  return (shape.min === undefined || value >= shape.min) && (shape.max === undefined || value <= shape.max);
+}
+
+function describeShape(shape: ValueShape): string {
+  const article = shape.kind === "integer" ? "an" : "a";
+  const kind = shape.kind === "string[]" ? "a list of strings" : `${article} ${shape.kind}`;
+  const range = shape.min !== undefined || shape.max !== undefined ? ` ${describeRange(shape)}` : "";
+  return `${kind}${range}`;
+}
+
+function describeRange(shape: ValueShape): string {
+  if (shape.min !== undefined && shape.max !== undefined) return `between ${shape.min} and ${shape.max}`;
+  if (shape.min !== undefined) return `at least ${shape.min}`;
+  return `at most ${shape.max}`;
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "string") return `the string "${value}"`;
+  if (typeof value === "object") return "an object";
+  return `${typeof value} ${String(value)}`;
+}
@@ -0,0 +1,128 @@
+import {
+  BUILTIN_RULESETS,
+  CheckSetting,
+  ResolvedRuleset,
+  resolveRuleset,
+  RulesetDefinition
+} from "./ruleset";
+import { isObject } from "../utils/values";
+
+const SEVERITIES = new Set(["error", "warn", "info", "off"]);
+
+/**
+ * Registry of named rulesets. Rulesets may extend each other; names are
+ * resolved when a ruleset is used, so registration order does not matter.
+ */
+export class RulesetRegistry {
+  private rulesets: Map<string, RulesetDefinition> = new Map();
+
+  /**
+   * Create a registry with the built-in `default` and `strict` rulesets.
+   */
+  static withDefaults(): RulesetRegistry {
+    const registry = new RulesetRegistry();
+    for (const ruleset of BUILTIN_RULESETS) registry.register(ruleset);
+    return registry;
+  }
+
+  /**
+   * Register a ruleset.
+   */
+  register(ruleset: RulesetDefinition): void {
+    if (this.rulesets.has(ruleset.name)) {
+      throw new Error(`Ruleset "${ruleset.name}" is already registered`);
+    }
+    this.rulesets.set(ruleset.name, ruleset);
+  }
+
+  /**
+   * Unregister a ruleset.
+   */
+  unregister(name: string): void {
+    this.rulesets.delete(name);
+  }
+
+  /**
+   * Get a ruleset definition by name.
+   */
+  get(name: string): RulesetDefinition | undefined {
+    return this.rulesets.get(name);
+  }
+
+  /**
+   * Check whether a ruleset is registered.
+   */
+  has(name: string): boolean {
+    return this.rulesets.has(name);
+  }
+
+  /**
+   * Get all registered rulesets, in registration order.
+   */
+  getAll(): RulesetDefinition[] {
+    return Array.from(this.rulesets.values());
+  }
+
+  /**
+   * Resolve a ruleset with its `extends` chain.
+   * @throws Error for unknown rulesets or checks, and `extends` cycles
+   */
+  resolve(name: string): ResolvedRuleset {
+    if (!this.rulesets.has(name)) {
+      const available = Array.from(this.rulesets.keys()).join(", ");
+      throw new Error(`Unknown ruleset "${name}". Available rulesets: ${available}`);
+    }
+    return resolveRuleset(name, (ruleset) => this.get(ruleset));
+  }
+}
+
+/**
+ * Read the rulesets declared in a rulesets file:
+ *
+ * ```json
+ * { "rulesets": { "ci": { "extends": "strict", "checks": { "ruleset/duplicate-rule": "error" } } } }
+ * ```
+ * @throws Error describing the first malformed entry
+ */
+export function parseRulesetsFile(content: unknown, filePath: string): RulesetDefinition[] {
+  const rulesets = isObject(content) ? content.rulesets : undefined;
+  if (!isObject(rulesets)) {
+    throw new Error(`${filePath}: expected a "rulesets" object`);
+  }
+
+  return Object.entries(rulesets).map(([name, entry]): RulesetDefinition => {
+    const where = `${filePath}: ruleset "${name}"`;
+    if (!isObject(entry)) throw new Error(`${where} must be an object`);
+
+    const { description, extends: bases, checks } = entry;
+    if (description !== undefined && typeof description !== "string") {
+      throw new Error(`${where}: description must be a string`);
+    }
+    const isNameList = Array.isArray(bases) && bases.every((base) => typeof base === "string");
+    if (bases !== undefined && typeof bases !== "string" && !isNameList) {
+      throw new Error(`${where}: extends must be a ruleset name or a list of names`);
+    }
+    if (checks !== undefined && !isObject(checks)) {
+      throw new Error(`${where}: checks must be an object`);
+    }
+    for (const [id, setting] of Object.entries(checks ?? {})) {
+      if (!isCheckSetting(setting)) {
+        throw new Error(`${where}: check "${id}" must be a severity, "off", or { severity, options }`);
+      }
+    }
+
+    return {
+      name,
+      description,
+      extends: bases as string | string[] | undefined,
+      checks: checks as Record<string, CheckSetting> | undefined
+    };
+  });
+}
+
+function isCheckSetting(value: unknown): value is CheckSetting {
+  if (typeof value === "string") return SEVERITIES.has(value);
+  if (!isObject(value)) return false;
+  const severityOk = value.severity === undefined || SEVERITIES.has(value.severity as string);
+  return severityOk && (value.options === undefined || isObject(value.options));
+}
@@ -1,117 +1,343 @@
-import { HelixConfig, ValidationIssue } from "../types";
+import { HelixConfig, IssueFix, Severity, ValidationIssue } from "../types";
+import { DeprecationRegistry } from "./deprecations";
+import { checkMetadata, METADATA_CONTRACT_CHECKS, MetadataContract, metadataOptionError } from "./metadata";
+import { checkRuleValue, RULE_CATALOG, RuleCatalog } from "./rule-catalog";
 
-const RESERVED_NAMES = new Set(["default", "system", "core", "internal", "root", "admin"]);
+const RESERVED_NAMES = ["default", "system", "core", "internal", "root", "admin"];
 const MAX_RULE_KEY_LENGTH = 128;
 const MAX_RULES_COUNT = 1000;
-const DEPRECATED_PATTERNS = ["legacy", "old", "deprecated"];
+
+/** Issues reported by the typed rule check, see {@link checkRuleValue}. */
+const TYPED_RULE_CHECKS = [
+  "ruleset/rule-type",
+  "ruleset/rule-range",
+  "ruleset/rule-missing-field",
+  "ruleset/rule-unknown-field"
+];
+
+/**
+ * A check the ruleset engine can run. The check id is also the rule of
+ * the issues it reports.
+ */
+export interface RulesetCheck {
+  description: string;
+  severity: Severity;
+  /** Options understood by the check, with their defaults. */
+  options?: Record<string, unknown>;
+}
+
+/**
+ * Every check of the ruleset engine with its default severity.
+ */
+export const RULESET_CHECKS: Record<string, RulesetCheck> = {
+  "ruleset/reserved-name": {
+    description: "Config names must not be reserved words.",
+    severity: "error",
+    options: { names: RESERVED_NAMES }
+  },
+  "ruleset/max-rules": {
+    description: "Limits the number of rules.",
+    severity: "error",
+    options: { max: MAX_RULES_COUNT }
+  },
+  "ruleset/duplicate-rule": {
+    description: "Rule keys must be unique, ignoring case.",
+    severity: "warn"
+  },
+  "ruleset/key-length": {
+    description: "Limits the length of rule keys.",
+    severity: "error",
+    options: { max: MAX_RULE_KEY_LENGTH }
+  },
+  "ruleset/key-format": {
+    description: "Rule keys may only contain alphanumerics, underscores, hyphens and dots.",
+    severity: "error"
+  },
+  "ruleset/deprecated-pattern": {
+    description: "Flags deprecated rule keys; errors once the config version reaches their removal.",
+    severity: "info"
+  },
+  "ruleset/rule-type": { description: "Known rules must have values of their declared kind.", severity: "error" },
+  "ruleset/rule-range": { description: "Values of known rules must be within their declared range.", severity: "error" },
+  "ruleset/rule-missing-field": { description: "Known rules must set their required fields.", severity: "error" },
+  "ruleset/rule-unknown-field": { description: "Known rules must not set undeclared fields.", severity: "error" },
+  "metadata/missing-field": {
+    description: "Metadata must set the listed fields.",
+    severity: "error",
+    options: { fields: [] }
+  },
+  "metadata/type": {
+    description: "Metadata fields must have the declared types.",
+    severity: "error",
+    options: { fields: {} }
+  },
+  "metadata/enum": {
+    description: "Metadata fields must have one of the declared values.",
+    severity: "error",
+    options: { fields: {} }
+  },
+  "metadata/pattern": {
+    description: "Metadata fields must match the declared regular expressions.",
+    severity: "error",
+    options: { fields: {} }
+  },
+  "ruleset/strict-min-rules": { description: "At least one rule must be defined.", severity: "error" },
+  "ruleset/strict-empty-value": { description: "Rules should not have empty values.", severity: "warn" }
+};
+
+/**
+ * How a ruleset configures a check: a severity, "off", or a severity with
+ * options for the check.
+ */
+export type CheckSetting =
+  | Severity
+  | "off"
+  | { severity?: Severity | "off"; options?: Record<string, unknown> };
+
+/**
+ * A named set of checks, declared in a rulesets file or registered
+ * programmatically.
+ */
+export interface RulesetDefinition {
+  name: string;
+  description?: string;
+  /** Rulesets whose checks this one starts from, applied in order. */
+  extends?: string | string[];
+  /** Checks to enable, disable or reconfigure, keyed by check id. */
+  checks?: Record<string, CheckSetting>;
+}
+
+/**
+ * A ruleset with its `extends` chain applied: the enabled checks with
+ * their severities and options.
+ */
+export interface ResolvedRuleset {
+  name: string;
+  checks: Map<string, { severity: Severity; options: Record<string, unknown> }>;
+}
+
+/**
+ * Built-in rulesets: `default` runs the general checks, `strict` adds
+ * checks for empty rulesets and rule values.
+ */
+export const BUILTIN_RULESETS: RulesetDefinition[] = [
+  {
+    name: "default",
+    description: "General checks for rule keys and known rule values.",
+    checks: Object.fromEntries(
+      Object.entries(RULESET_CHECKS)
+        .filter(([id]) => !id.startsWith("ruleset/strict-"))
+        .map(([id, check]) => [id, check.severity])
+    )
+  },
+  {
+    name: "strict",
+    description: "The default checks, plus checks for empty rules.",
+    extends: "default",
+    checks: {
+      "ruleset/strict-min-rules": "error",
+      "ruleset/strict-empty-value": "warn"
+    }
+  }
+];
+
+/**
+ * Resolve a ruleset and its `extends` chain. Later settings override
+ * earlier ones; options are merged key by key.
+ * @throws Error for unknown rulesets or checks, and `extends` cycles
+ */
+export function resolveRuleset(
+  name: string,
+  lookup: (name: string) => RulesetDefinition | undefined,
+  chain: string[] = []
+): ResolvedRuleset {
+  const definition = lookup(name);
+  if (!definition) {
+    const parent = chain[chain.length - 1];
+    throw new Error(parent ? `Ruleset "${parent}" extends unknown ruleset "${name}"` : `Unknown ruleset "${name}"`);
+  }
+  if (chain.includes(name)) {
+    throw new Error(`Circular ruleset extends: ${[...chain, name].join(" -> ")}`);
+  }
+
+  const checks: ResolvedRuleset["checks"] = new Map();
+  const bases = definition.extends === undefined ? [] : ([] as string[]).concat(definition.extends);
+  for (const base of bases) {
+    for (const [id, check] of resolveRuleset(base, lookup, [...chain, name]).checks) {
+      checks.set(id, check);
+    }
+  }
+
+  for (const [id, setting] of Object.entries(definition.checks ?? {})) {
+    const known = RULESET_CHECKS[id];
+    if (!known) {
+      throw new Error(`Ruleset "${name}" configures unknown check "${id}"`);
+    }
+    const { severity, options } = typeof setting === "string" ? { severity: setting, options: {} } : setting;
+    if (severity === "off") {
+      checks.delete(id);
+      continue;
+    }
+    const optionError = id.startsWith("metadata/") ? metadataOptionError(id, options?.fields) : undefined;
+    if (optionError) {
+      throw new Error(`Ruleset "${name}" configures check "${id}" with invalid options: ${optionError}`);
+    }
+    const current = checks.get(id);
+    checks.set(id, {
+      severity: severity ?? current?.severity ?? known.severity,
+      options: { ...(current?.options ?? known.options), ...options }
+    });
+  }
+
+  return { name, checks };
+}
 
 export interface RulesetOptions {
+  /** Name of a built-in ruleset, used when no resolved `ruleset` is given (default "default"). */
   name?: string;
+  /** Resolved ruleset deciding which checks run. */
+  ruleset?: ResolvedRuleset;
+  /** Overrides the `max` option of `ruleset/max-rules`. */
   maxRules?: number;
+  /** Rule definitions added to (or replacing) the built-in catalog. */
+  catalog?: RuleCatalog;
+  /** Deprecated rule keys (default: the built-in deprecations). */
+  deprecations?: DeprecationRegistry;
 }
 
 export function evaluateRules(
   config: HelixConfig,
   options: RulesetOptions = {}
 ): ValidationIssue[] {
+  const ruleset =
+    options.ruleset ??
+    resolveRuleset(options.name ?? "default", (name) => BUILTIN_RULESETS.find((r) => r.name === name));
   const issues: ValidationIssue[] = [];
   const rules = config.rules ?? {};
 
+  // Report an issue for an enabled check, at the ruleset's severity unless escalated
+  const report = (id: string, path: string, message: string, fix?: IssueFix, severity?: Severity): void => {
+    const check = ruleset.checks.get(id);
+    if (check) {
+      issues.push({ path, message, severity: severity ?? check.severity, rule: id, ...(fix ? { fix } : {}) });
+    }
+  };
+  const option = <T>(id: string, key: string): T =>
+    (ruleset.checks.get(id)?.options[key] ?? RULESET_CHECKS[id]?.options?.[key]) as T;
+  const enabled = (id: string): boolean => ruleset.checks.has(id);
+
   // Reserved name check
-  if (config.name && RESERVED_NAMES.has(config.name.toLowerCase())) {
-    issues.push({
-      path: "name",
-      message: `Name "${config.name}" is reserved and cannot be used.`,
-      severity: "error",
-      rule: "ruleset/reserved-name"
-    });
+  const reserved = option<string[]>("ruleset/reserved-name", "names");
+  if (typeof config.name === "string" && reserved.includes(config.name.toLowerCase())) {
+    report("ruleset/reserved-name", "name", `Name "${config.name}" is reserved and cannot be used.`);
   }
 
   const ruleKeys = Object.keys(rules);
-  const maxRules = options.maxRules ?? MAX_RULES_COUNT;
+  const maxRules = options.maxRules ?? option<number>("ruleset/max-rules", "max");
+  const catalog: RuleCatalog = { ...RULE_CATALOG, ...options.catalog };
 
   // Rule count validation
   if (ruleKeys.length > maxRules) {
-    issues.push({
-      path: "rules",
-      message: `Too many rules: ${ruleKeys.length} exceeds maximum of ${maxRules}.`,
-      severity: "error",
-      rule: "ruleset/max-rules"
-    });
+    report("ruleset/max-rules", "rules", `Too many rules: ${ruleKeys.length} exceeds maximum of ${maxRules}.`);
   }
 
   // Duplicate detection (case-insensitive)
-  const duplicates = findDuplicates(ruleKeys);
-  duplicates.forEach((dup) => {
-    issues.push({
-      path: `rules.${dup}`,
-      message: `Duplicate rule key "${dup}" (case-insensitive match detected).`,
-      severity: "warn",
-      rule: "ruleset/duplicate-rule"
+  if (enabled("ruleset/duplicate-rule")) {
+    const duplicates = findDuplicates(ruleKeys);
+    duplicates.forEach((dup) => {
+      // Keep the first spelling, remove the others
+      const [kept, ...removed] = ruleKeys.filter((key) => key.toLowerCase() === dup);
+      report(
+        "ruleset/duplicate-rule",
+        `rules.${dup}`,
+        `Duplicate rule key "${dup}" (case-insensitive match detected).`,
+        {
+          description: `Remove ${removed.map((key) => `"${key}"`).join(", ")}, keeping "${kept}"`,
+          edits: removed.map((key) => ({ kind: "remove", path: `rules.${key}` }))
+        }
+      );
     });
-  });
+  }
 
   // Rule key format validation - optimized with compiled regex
   const keyFormatRegex = /^[a-zA-Z0-9_][a-zA-Z0-9_\-.]*$/;
+  const maxKeyLength = option<number>("ruleset/key-length", "max");
+  const deprecations = options.deprecations ?? DeprecationRegistry.withDefaults();
+  const typed = TYPED_RULE_CHECKS.some(enabled);
   for (const key of ruleKeys) {
-    if (key.length > MAX_RULE_KEY_LENGTH) {
-      issues.push({
-        path: `rules.${key}`,
-        message: `Rule key "${key}" exceeds maximum length of ${MAX_RULE_KEY_LENGTH} characters.`,
-        severity: "error",
-        rule: "ruleset/key-length"
-      });
+    if (key.length > maxKeyLength) {
+      report(
+        "ruleset/key-length",
+        `rules.${key}`,
+        `Rule key "${key}" exceeds maximum length of ${maxKeyLength} characters.`
+      );
     }
 
     if (!keyFormatRegex.test(key)) {
-      issues.push({
-        path: `rules.${key}`,
-        message: `Rule key "${key}" contains invalid characters. Only alphanumeric, underscore, hyphen, and dot are allowed.`,
-        severity: "error",
-        rule: "ruleset/key-format"
-      });
+      const fixed = key.replace(/[^a-zA-Z0-9_\-.]/g, "").replace(/^[-.]+/, "");
+      const fixable = fixed !== "" && !Object.prototype.hasOwnProperty.call(rules, fixed);
+      report(
+        "ruleset/key-format",
+        `rules.${key}`,
+        `Rule key "${key}" contains invalid characters. Only alphanumeric, underscore, hyphen, and dot are allowed.`,
+        fixable
+          ? {
+              description: `Rename "${key}" to "${fixed}"`,
+              edits: [{ kind: "rename-key", path: `rules.${key}`, key: fixed }]
+            }
+          : undefined
+      );
+    }
+
+    // Deprecated keys, escalated to errors once removed
+    const deprecation = enabled("ruleset/deprecated-pattern")
+      ? deprecations.check(key, config.version, ruleKeys)
+      : undefined;
+    if (deprecation) {
+      const { message, fix, severity } = deprecation;
+      report("ruleset/deprecated-pattern", `rules.${key}`, message, fix, severity);
     }
 
-    // Deprecation warnings - optimized with early exit
-    const lowerKey = key.toLowerCase();
-    for (const pattern of DEPRECATED_PATTERNS) {
-      if (lowerKey.includes(pattern)) {
-        issues.push({
-          path: `rules.${key}`,
-          message: `Rule key "${key}" appears to use deprecated naming pattern. Consider updating to current conventions.`,
-          severity: "info",
-          rule: "ruleset/deprecated-pattern"
-        });
-        break; // Early exit after first match
+    // Typed rules: check the value against its declared shape
+    const definition = Object.prototype.hasOwnProperty.call(catalog, key) ? catalog[key] : undefined;
+    if (typed && definition) {
+      for (const issue of checkRuleValue(key, rules[key], definition)) {
+        report(issue.rule, issue.path, issue.message);
       }
     }
   }
 
-  // Strict ruleset validation
-  if (options.name === "strict") {
-    if (ruleKeys.length === 0) {
-      issues.push({
-        path: "rules",
-        message: "Strict ruleset requires at least one rule.",
-        severity: "error",
-        rule: "ruleset/strict-min-rules"
-      });
+  // Metadata contract: each part comes from the options of its check
+  const contract: MetadataContract = {};
+  for (const [part, id] of Object.entries(METADATA_CONTRACT_CHECKS) as Array<[keyof MetadataContract, string]>) {
+    if (enabled(id)) Object.assign(contract, { [part]: option(id, "fields") });
+  }
+  // Non-object metadata is reported by schema/metadata-type
+  const metadata = config.metadata;
+  if (metadata === undefined || (typeof metadata === "object" && metadata !== null && !Array.isArray(metadata))) {
+    for (const issue of checkMetadata(metadata, contract)) {
+      report(issue.rule, issue.path, issue.message);
     }
+  }
 
-    // In strict mode, warn about empty rule values
-    ruleKeys.forEach((key) => {
-      const value = rules[key];
-      if (value === null || value === undefined || (typeof value === "object" && Object.keys(value).length === 0)) {
-        issues.push({
-          path: `rules.${key}`,
-          message: `Rule "${key}" has an empty value, which may not be intended in strict mode.`,
-          severity: "warn",
-          rule: "ruleset/strict-empty-value"
-        });
-      }
-    });
+  // Checks for empty rulesets and rule values
+  if (ruleKeys.length === 0) {
+    report("ruleset/strict-min-rules", "rules", "The ruleset requires at least one rule.");
   }
 
+  // Warn about empty rule values
+  ruleKeys.forEach((key) => {
+    const value = rules[key];
+    if (value === null || value === undefined || (typeof value === "object" && Object.keys(value).length === 0)) {
+      report(
+        "ruleset/strict-empty-value",
+        `rules.${key}`,
+        `Rule "${key}" has an empty value, which may not be intended.`,
+        { description: `Remove the empty rule "${key}"`, edits: [{ kind: "remove", path: `rules.${key}` }] }
+      );
+    }
+  });
+
   return issues;
 }
 
@@ -119,7 +345,7 @@ function findDuplicates(values: string[]): string[] {
   // Optimize: use single pass with early detection
   const seen = new Map<string, string>(); // normalized -> original
   const dup = new Set<string>();
-  
+
   for (const value of values) {
     const normalized = value.toLowerCase();
     if (seen.has(normalized)) {
@@ -128,7 +354,6 @@ function findDuplicates(values: string[]): string[] {
       seen.set(normalized, value);
     }
   }
-  
+
   return Array.from(dup);
 }
-
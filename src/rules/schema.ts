@@ -1,4 +1,4 @@
-import { HelixConfig, ValidationIssue } from "../types";
+import { HelixConfig, IssueFix, ValidationIssue } from "../types";
 
 const semverRegex = /^\d+\.\d+\.\d+(-[a-zA-Z0-9-]+)?(\+[a-zA-Z0-9-]+)?$/;
 const nameRegex = /^[a-z0-9][a-z0-9-]*[a-z0-9]$|^[a-z0-9]$/i;
@@ -35,11 +35,13 @@ export function validateSchema(config: HelixConfig): ValidationIssue[] {
       });
     }
     if (!nameRegex.test(config.name)) {
+      const fixed = config.name.toLowerCase().replace(/[^a-z0-9-]/g, "").replace(/^-+|-+$/g, "");
       issues.push({
         path: "name",
         message: "Config name must contain only alphanumeric characters and hyphens, and cannot start or end with a hyphen.",
         severity: "error",
-        rule: "schema/name-format"
+        rule: "schema/name-format",
+        ...(fixed ? { fix: setValue("name", fixed) } : {})
       });
     }
   }
@@ -63,11 +65,14 @@ export function validateSchema(config: HelixConfig): ValidationIssue[] {
         });
       }
       if (!semverRegex.test(config.version)) {
+        // Complete partial versions: `1.0` and `v1.0` become `1.0.0`
+        const partial = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?$/.exec(config.version);
         issues.push({
           path: "version",
           message: "Version should follow semver format (x.y.z[-prerelease][+build]).",
           severity: "warn",
-          rule: "schema/version-semver"
+          rule: "schema/version-semver",
+          ...(partial ? { fix: setValue("version", `${partial[1]}.${partial[2] ?? 0}.${partial[3] ?? 0}`) } : {})
         });
       }
     }
@@ -110,3 +115,6 @@ export function validateSchema(config: HelixConfig): ValidationIssue[] {
   return issues;
 }
 
+function setValue(path: string, value: string): IssueFix {
+  return { description: `Set ${path} to "${value}"`, edits: [{ kind: "set-value", path, value }] };
+}
@@ -1,3 +1,12 @@
+import type { RulePlugin } from "./plugins/rule-plugin";
+import type { TextEncoding } from "./loaders/encoding";
+import type { DeprecationEntry } from "./rules/deprecations";
+import type { JsonSchema } from "./rules/json-schema";
+import type { PolicyDefinition } from "./rules/policy";
+import type { RuleCatalog } from "./rules/rule-catalog";
+import type { RulesetDefinition } from "./rules/ruleset";
+import type { Baseline } from "./utils/baseline";
+
 export type Severity = "error" | "warn" | "info";
 
 export interface ValidationIssue {
@@ -5,26 +14,254 @@ export interface ValidationIssue {
   message: string;
   severity: Severity;
   rule: string;
+  /** Source file the issue was found in, when validating a file. */
+  file?: string;
+  /** 1-based start line of the offending key or value. */
+  line?: number;
+  /** 1-based start column of the offending key or value. */
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  /** Other source positions involved in the issue, e.g. an earlier definition. */
+  related?: RelatedLocation[];
+  /** 0-based index of the document the issue belongs to, in multi-document files. */
+  document?: number;
+  /** Change to the config that resolves the issue, applied by `fixFile`. */
+  fix?: IssueFix;
+}
+
+/**
+ * A change to one node of the config, addressed by issue path.
+ */
+export type FixEdit =
+  | { kind: "set-value"; path: string; value: string | number | boolean | null }
+  | { kind: "rename-key"; path: string; key: string }
+  | { kind: "remove"; path: string };
+
+export interface IssueFix {
+  /** What the fix does, e.g. `Rename "bad key" to "badkey"`. */
+  description: string;
+  /** Edits applied together; the fix is skipped if any cannot be applied. */
+  edits: FixEdit[];
 }
 
+/**
+ * Outcome of fixing a file: the fixed content and the result of
+ * validating it.
+ */
+export interface FixResult {
+  /** Content before fixing. */
+  original: string;
+  /** Content with all applicable fixes applied. */
+  output: string;
+  /** Issues whose fixes were applied. */
+  fixed: ValidationIssue[];
+  /** Validation result of the fixed content. */
+  result: ValidationResult;
+  /** Encoding the file was read in, to write the output back in. */
+  encoding: TextEncoding;
+  /** Whether the file started with a byte order mark. */
+  bom: boolean;
+}
+
+export interface RelatedLocation {
+  message: string;
+  file?: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+/**
+ * A span of source text. Lines and columns are 1-based; offsets are
+ * 0-based indexes into the source string, with `endOffset` exclusive.
+ */
+export interface SourceRange {
+  offset: number;
+  endOffset: number;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+/**
+ * Where a config node was defined. Mapping values carry the range of
+ * their key as well.
+ */
+export interface SourceNodeLocation {
+  /** File the node was defined in, when inherited from another config. */
+  file?: string;
+  key?: SourceRange;
+  value: SourceRange;
+}
+
+/**
+ * Node locations keyed by issue path (`rules.foo`, `rules.list[0]`);
+ * the document root uses the empty path.
+ */
+export type LocationMap = Map<string, SourceNodeLocation>;
+
 export interface ValidationResult {
+  /** False if any document has errors (or warnings in strict mode). */
   ok: boolean;
+  /** Issues of all documents. */
   issues: ValidationIssue[];
   summary: string;
   elapsedMs: number;
   format: "text" | "json";
+  /** Per-document results, present for files holding several configs. */
+  documents?: DocumentResult[];
+  /** Issues silenced by suppression comments, kept for auditing. */
+  suppressed?: SuppressedIssue[];
+  /** Known issues recorded in the baseline, not counted in the result. */
+  baselined?: ValidationIssue[];
+}
+
+/**
+ * An issue silenced by a suppression comment.
+ */
+export interface SuppressedIssue extends ValidationIssue {
+  /** Reason given after `--` in the comment. */
+  reason?: string;
+}
+
+/**
+ * Validation result of one document in a multi-document file.
+ */
+export interface DocumentResult {
+  index: number;
+  ok: boolean;
+  issues: ValidationIssue[];
 }
 
 export interface HelixConfig {
+  /**
+   * Config file(s) this config inherits from, resolved relative to the
+   * extending file. Only resolved by `validateFile`.
+   */
+  extends?: string | string[];
   name?: string;
   version?: string;
   rules?: Record<string, unknown>;
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * A comment in a config source, recorded by loaders of formats with comments.
+ */
+export interface SourceComment {
+  /** Comment text without its `#` or `//` marker. */
+  text: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Result of parsing a config source with a {@link ConfigLoader}.
+ */
+export interface ParsedConfig {
+  config: HelixConfig;
+  format: string;
+  /** Source positions recorded while parsing, when the loader tracks them. */
+  locations?: LocationMap;
+  /** Comments of the whole source, when the loader records them. */
+  comments?: SourceComment[];
+  /** Problems found while parsing that did not prevent loading the config. */
+  issues?: ValidationIssue[];
+  /**
+   * Every config in sources holding several (e.g. multi-document YAML);
+   * the other fields then describe the first one.
+   */
+  documents?: ParsedConfig[];
+}
+
+/**
+ * Format-specific loader consulted by the validator.
+ */
+export interface ConfigLoader {
+  /** Format name, e.g. "json" or "yaml". */
+  readonly format: string;
+  /** File extensions handled by this loader, including the leading dot. */
+  readonly extensions: readonly string[];
+  /** Parse config content; throws on syntax or structural errors. */
+  parse(content: string, filePath: string): ParsedConfig;
+  /** Optional content check used for files without a known extension. */
+  sniff?(content: string): boolean;
+}
+
+/**
+ * Options for validating config content passed as a string.
+ */
+export interface ValidateTextOptions {
+  /** Config format, e.g. "json" or "yaml"; detected from the filename or content when omitted. */
+  format?: string;
+  /** Name used in reports and for extension-based format detection (default `<stdin>`). */
+  filename?: string;
+}
+
+/**
+ * Limits enforced while loading configs, to protect the validator from
+ * hostile input. Each exceeded limit is reported as a `limits/*` issue.
+ */
+export interface LoadLimits {
+  /** Maximum size of a config in bytes (default 10 MiB). */
+  maxFileSize?: number;
+  /** Maximum nesting depth of objects and arrays; the root object is level 1 (default 100). */
+  maxDepth?: number;
+  /** Maximum total number of object keys (default 100,000). */
+  maxKeys?: number;
+  /** Maximum length of a string value or key, in characters (default 1 MiB). */
+  maxStringLength?: number;
+}
+
 export interface ValidatorOptions {
   strict?: boolean;
+  /** Name of the ruleset to apply (default "default"). */
   ruleset?: string;
+  /** Additional named rulesets; they may extend each other and the built-in ones. */
+  rulesets?: RulesetDefinition[];
+  /** File (JSON, YAML or TOML) declaring named rulesets under a `rulesets` key. */
+  rulesetsFile?: string;
+  /** Declarative policies, reported as `policy/<id>` issues. */
+  policies?: PolicyDefinition[];
+  /** File (JSON, YAML or TOML) declaring policies under a `policies` list. */
+  policyFile?: string;
+  /**
+   * Severities by issue rule, e.g. `{ "schema/version-semver": "error" }`;
+   * "off" drops the rule's issues. Applies to every check except load errors.
+   */
+  severities?: Record<string, Severity | "off">;
+  /** Warn about suppression comments that silence no issue (`suppression/unused`). */
+  reportUnusedSuppressions?: boolean;
+  /**
+   * Baseline of known issues, or the path of a baseline file; only issues
+   * missing from it are reported.
+   */
+  baseline?: string | Baseline;
   format?: "text" | "json";
+  /** Accept comments and trailing commas in `.json` files (always on for `.jsonc`). */
+  jsonc?: boolean;
+  /** Additional loaders; they take precedence over the built-in ones. */
+  loaders?: ConfigLoader[];
+  /** Custom rule plugins, run by validateFile after the built-in checks. */
+  plugins?: RulePlugin[];
+  /** Directories searched for `extends` targets not found next to the extending file. */
+  searchPaths?: string[];
+  /** Expand `${VAR}` placeholders in config values before validation. */
+  interpolateEnv?: boolean;
+  /** Variables used for interpolation instead of `process.env`. */
+  env?: Record<string, string | undefined>;
+  /** Size and nesting limits; unset limits use their defaults. */
+  limits?: LoadLimits;
+  /** JSON Schema (draft 2020-12) applied to the whole config: a schema file path or a schema. */
+  schema?: string | JsonSchema;
+  /** JSON Schemas applied to the values of individual rules, keyed by rule name. */
+  ruleSchemas?: Record<string, string | JsonSchema>;
+  /** Typed rule definitions added to (or replacing) the built-in rule catalog. */
+  ruleCatalog?: RuleCatalog;
+  /** Deprecated rule keys, registered in addition to the built-in deprecations. */
+  deprecations?: DeprecationEntry[];
 }
 
@@ -0,0 +1,163 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import path from "node:path";
+import { ValidationIssue } from "../types";
+
+/**
+ * Baselines record the known issues of configs so that only new issues
+ * are reported. Issues are identified by a fingerprint of their rule,
+ * path and message, so entries survive edits that move lines around.
+ *
+ * ```json
+ * {
+ *   "version": 1,
+ *   "files": {
+ *     "config/app.json": [
+ *       { "fingerprint": "3f1c…", "rule": "ruleset/key-format", "path": "rules.bad key", "message": "…" }
+ *     ]
+ *   }
+ * }
+ * ```
+ */
+
+const BASELINE_VERSION = 1;
+
+export interface BaselineEntry {
+  fingerprint: string;
+  rule: string;
+  path: string;
+  message: string;
+  /** Document index in multi-document files. */
+  document?: number;
+}
+
+/**
+ * Compute the fingerprint of an issue. Numbers and whitespace in the
+ * message are normalized, so counts and limits may change without
+ * invalidating the entry.
+ */
+export function issueFingerprint(issue: ValidationIssue): string {
+  const message = issue.message.replace(/\d+/g, "#").replace(/\s+/g, " ").trim();
+  const parts = [issue.rule, issue.path, message, issue.document === undefined ? "" : String(issue.document)];
+  return createHash("sha256").update(parts.join("\0")).digest("hex").slice(0, 16);
+}
+
+/**
+ * Known issues, keyed by config file. File names are stored relative to
+ * the directory of the baseline file.
+ */
+export class Baseline {
+  private readonly files: Map<string, BaselineEntry[]>;
+  private readonly baseDir: string;
+
+  constructor(files: Record<string, BaselineEntry[]> = {}, baseDir: string = process.cwd()) {
+    this.files = new Map(Object.entries(files));
+    this.baseDir = path.resolve(baseDir);
+  }
+
+  /**
+   * Read a baseline file.
+   * @throws Error if the file cannot be read or is not a baseline
+   */
+  static read(filePath: string): Baseline {
+    const resolved = path.resolve(filePath);
+    const content = JSON.parse(readFileSync(resolved, "utf8")) as unknown;
+    const files = (content as { files?: unknown } | null)?.files;
+    const version = (content as { version?: unknown } | null)?.version;
+    if (version !== BASELINE_VERSION || typeof files !== "object" || files === null || Array.isArray(files)) {
+      throw new Error(`${resolved}: not a version ${BASELINE_VERSION} baseline file`);
+    }
+    return new Baseline(files as Record<string, BaselineEntry[]>, path.dirname(resolved));
+  }
+
+  /**
+   * Start matching the issues of a config against its entries.
+   */
+  matcher(filePath: string): BaselineMatcher {
+    return new BaselineMatcher(this.files.get(this.key(filePath)) ?? []);
+  }
+
+  /**
+   * Replace the entries of a config with its current issues. Other
+   * configs keep their entries.
+   */
+  update(filePath: string, issues: ValidationIssue[]): void {
+    const entries = issues.map(
+      (issue): BaselineEntry => ({
+        fingerprint: issueFingerprint(issue),
+        rule: issue.rule,
+        path: issue.path,
+        message: issue.message,
+        ...(issue.document !== undefined ? { document: issue.document } : {})
+      })
+    );
+    const key = this.key(filePath);
+    if (entries.length > 0) this.files.set(key, entries);
+    else this.files.delete(key);
+  }
+
+  /**
+   * Number of entries across all configs.
+   */
+  get size(): number {
+    let size = 0;
+    for (const entries of this.files.values()) size += entries.length;
+    return size;
+  }
+
+  /**
+   * Write the baseline as JSON, with configs sorted by name for stable diffs.
+   */
+  async write(filePath: string): Promise<void> {
+    const files = Object.fromEntries(Array.from(this.files.entries()).sort(([a], [b]) => a.localeCompare(b)));
+    await writeFile(filePath, JSON.stringify({ version: BASELINE_VERSION, files }, null, 2) + "\n");
+  }
+
+  private key(filePath: string): string {
+    return path.relative(this.baseDir, path.resolve(filePath)).split(path.sep).join("/");
+  }
+}
+
+/**
+ * Matches the issues of one config against its baseline entries. Each
+ * entry matches one issue, so repeated issues need repeated entries.
+ */
+export class BaselineMatcher {
+  /** Issues matched by an entry, in the order they were reported. */
+  readonly known: ValidationIssue[] = [];
+  private readonly remaining: BaselineEntry[];
+
+  constructor(entries: BaselineEntry[]) {
+    this.remaining = [...entries];
+  }
+
+  /**
+   * Remove the issues recorded in the baseline, keeping them in {@link known}.
+   */
+  apply(issues: ValidationIssue[]): ValidationIssue[] {
+    return issues.filter((issue) => {
+      const fingerprint = issueFingerprint(issue);
+      const index = this.remaining.findIndex((entry) => entry.fingerprint === fingerprint);
+      if (index === -1) return true;
+      this.remaining.splice(index, 1);
+      this.known.push(issue);
+      return false;
+    });
+  }
+
+  /**
+   * Report entries that matched no issue as `baseline/fixed` infos, so
+   * the baseline can be pruned.
+   */
+  fixed(file: string): ValidationIssue[] {
+    return this.remaining.map((entry) => ({
+      path: "$file",
+      message: `Baselined issue is fixed and can be removed from the baseline: (${entry.rule}) ${entry.path}: ${entry.message}`,
+      severity: "info",
+      rule: "baseline/fixed",
+      file,
+      ...(entry.document !== undefined ? { document: entry.document } : {})
+    }));
+  }
+}
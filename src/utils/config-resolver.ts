@@ -50,7 +50,7 @@ export class ConfigResolver {
     }
 
     // Try with common extensions
-    const extensions = [".json", ".yaml", ".yml", ".jsonc"];
+    const extensions = [".json", ".yaml", ".yml", ".jsonc", ".toml"];
     for (const ext of extensions) {
       const withExt = filePath.endsWith(ext) ? filePath : `${filePath}${ext}`;
       
@@ -70,6 +70,29 @@ export class ConfigResolver {
     return null;
   }
 
+  /**
+   * Resolve a path referenced from another config file, such as an
+   * `extends` entry. Relative paths are tried next to the referencing file
+   * first, then in the search paths, each with the common extensions.
+   */
+  resolveFrom(baseDir: string, filePath: string): string | null {
+    const candidates = path.isAbsolute(filePath)
+      ? [filePath]
+      : [path.join(baseDir, filePath), ...this.searchPaths.map((dir) => path.join(dir, filePath))];
+    const extensions = ["", ".json", ".yaml", ".yml", ".jsonc", ".toml"];
+
+    for (const candidate of candidates) {
+      for (const ext of extensions) {
+        if (this.fileExists(`${candidate}${ext}`)) {
+          return path.resolve(`${candidate}${ext}`);
+        }
+      }
+    }
+
+    this.logger.warn(`Could not resolve configuration file: ${filePath} (from ${baseDir})`);
+    return null;
+  }
+
   /**
    * Check if file exists and is readable.
    */
@@ -89,7 +112,7 @@ export class ConfigResolver {
   /**
    * Detect file format from extension or content.
    */
-  static detectFormat(filePath: string): "json" | "yaml" | "unknown" {
+  static detectFormat(filePath: string): "json" | "yaml" | "toml" | "unknown" {
     const ext = path.extname(filePath).toLowerCase();
     
     if (ext === ".json" || ext === ".jsonc") {
@@ -100,6 +123,10 @@ export class ConfigResolver {
       return "yaml";
     }
 
+    if (ext === ".toml") {
+      return "toml";
+    }
+
     return "unknown";
   }
 
@@ -108,7 +135,7 @@ export class ConfigResolver {
    */
   getAllPossiblePaths(baseName: string): string[] {
     const paths: string[] = [];
-    const extensions = ["", ".json", ".yaml", ".yml", ".jsonc"];
+    const extensions = ["", ".json", ".yaml", ".yml", ".jsonc", ".toml"];
 
     // Current directory
     for (const ext of extensions) {
@@ -0,0 +1,134 @@
+/**
+ * Line-based unified diffs, used to preview fixes.
+ */
+
+const CONTEXT_LINES = 3;
+/** Above this many line pairs, changed regions are shown as a whole. */
+const MAX_DIFF_CELLS = 4_000_000;
+const NO_NEWLINE = "\\ No newline at end of file";
+
+interface DiffLine {
+  kind: " " | "-" | "+";
+  text: string;
+  /** Line numbers the line has, or would have, in each text. */
+  oldLine: number;
+  newLine: number;
+}
+
+/**
+ * Build a unified diff between two texts, or an empty string when they
+ * are equal.
+ */
+export function unifiedDiff(oldText: string, newText: string, oldName: string, newName: string = oldName): string {
+  if (oldText === newText) return "";
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const output = [`--- ${oldName}`, `+++ ${newName}`];
+
+  let index = 0;
+  while (index < lines.length) {
+    // Find the next change and the end of its hunk
+    const first = lines.findIndex((line, at) => at >= index && line.kind !== " ");
+    if (first === -1) break;
+    let last = first;
+    for (let at = first + 1; at < lines.length && at - last <= CONTEXT_LINES * 2; at++) {
+      if (lines[at]?.kind !== " ") last = at;
+    }
+
+    const start = Math.max(index, first - CONTEXT_LINES);
+    const end = Math.min(lines.length, last + CONTEXT_LINES + 1);
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((line) => line.kind !== "+").length;
+    const newCount = hunk.filter((line) => line.kind !== "-").length;
+    const head = hunk[0] as DiffLine;
+    output.push(`@@ -${range(head.oldLine, oldCount)} +${range(head.newLine, newCount)} @@`);
+    output.push(...hunk.map((line) => `${line.kind}${line.text}`));
+    index = end;
+  }
+  return output.join("\n") + "\n";
+}
+
+/**
+ * Split a text into lines without their terminators. A last line without
+ * a newline carries the marker line `patch` expects after it, so it also
+ * differs from the same line with a newline.
+ */
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  const last = lines.pop() as string;
+  if (last !== "") lines.push(`${last}\n${NO_NEWLINE}`);
+  return lines;
+}
+
+function range(start: number, count: number): string {
+  // Empty ranges name the line before them
+  return `${count === 0 ? start - 1 : start},${count}`;
+}
+
+/**
+ * Diff two line lists: common lines at both ends are matched directly,
+ * the rest through their longest common subsequence.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const result: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  const push = (kind: DiffLine["kind"], text: string): void => {
+    result.push({ kind, text, oldLine, newLine });
+    if (kind !== "+") oldLine++;
+    if (kind !== "-") newLine++;
+  };
+
+  oldLines.slice(0, prefix).forEach((text) => push(" ", text));
+  for (const [kind, text] of middleDiff(oldMiddle, newMiddle)) push(kind, text);
+  oldLines.slice(oldLines.length - suffix).forEach((text) => push(" ", text));
+  return result;
+}
+
+function middleDiff(oldLines: string[], newLines: string[]): Array<[DiffLine["kind"], string]> {
+  if (oldLines.length * newLines.length > MAX_DIFF_CELLS) {
+    return [
+      ...oldLines.map((text): [DiffLine["kind"], string] => ["-", text]),
+      ...newLines.map((text): [DiffLine["kind"], string] => ["+", text])
+    ];
+  }
+
+  // Length of the common subsequence of oldLines[i..] and newLines[j..]
+  const width = newLines.length + 1;
+  const lengths = new Uint32Array((oldLines.length + 1) * width);
+  const common = (i: number, j: number): number => lengths[i * width + j] ?? 0;
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        oldLines[i] === newLines[j] ? common(i + 1, j + 1) + 1 : Math.max(common(i + 1, j), common(i, j + 1));
+    }
+  }
+
+  const result: Array<[DiffLine["kind"], string]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      result.push([" ", oldLines[i++] as string]);
+      j++;
+    } else if (i < oldLines.length && (j === newLines.length || common(i + 1, j) >= common(i, j + 1))) {
+      result.push(["-", oldLines[i++] as string]);
+    } else {
+      result.push(["+", newLines[j++] as string]);
+    }
+  }
+  return result;
+}
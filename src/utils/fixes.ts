@@ -0,0 +1,219 @@
+import { containsPlaceholder } from "../loaders/env-interpolation";
+import { parseYaml } from "../loaders/yaml-parser";
+import { FixEdit, LocationMap, ParsedConfig, ValidationIssue } from "../types";
+
+/**
+ * Applies issue fixes to config sources. Edits replace the recorded
+ * source ranges of keys and values, so formatting, comments and key
+ * order elsewhere in the file are preserved. Fixes are applied to JSON
+ * (and JSONC) and YAML sources.
+ */
+
+const FIXABLE_FORMATS = new Set(["json", "yaml"]);
+
+interface TextEdit {
+  offset: number;
+  endOffset: number;
+  text: string;
+  /** The edit removes whole lines. */
+  lines?: boolean;
+}
+
+export interface ApplyFixesOptions {
+  /**
+   * Skip edits of values holding `${...}` placeholders, for issues found
+   * in the interpolated config; the edits would replace the placeholder.
+   */
+  keepPlaceholders?: boolean;
+}
+
+export interface AppliedFixes {
+  content: string;
+  /** Issues whose fixes were applied. */
+  applied: ValidationIssue[];
+}
+
+/**
+ * Apply the fixes of the given issues to the decoded source they were
+ * found in (without a byte order mark, as returned by `decodeText`).
+ * Fixes whose edits cannot be located, or that overlap an earlier fix,
+ * are skipped; validating and fixing again picks up the latter.
+ */
+export function applyFixes(
+  content: string,
+  parsed: ParsedConfig,
+  issues: ValidationIssue[],
+  options: ApplyFixesOptions = {}
+): AppliedFixes {
+  if (!FIXABLE_FORMATS.has(parsed.format)) return { content, applied: [] };
+  const accepted: TextEdit[] = [];
+  const applied: ValidationIssue[] = [];
+
+  for (const issue of issues) {
+    if (!issue.fix) continue;
+    const document = issue.document === undefined ? parsed : parsed.documents?.[issue.document];
+    const locations = document?.locations;
+    if (!locations) continue;
+
+    const located: TextEdit[] = [];
+    for (const edit of issue.fix.edits) {
+      const text = locate(content, parsed.format, locations, edit, options);
+      if (!text) break;
+      located.push(text);
+    }
+    if (located.length !== issue.fix.edits.length) continue;
+
+    const edits = mergeRemovals(located).map((edit) => detachComma(content, edit, parsed.format));
+    const conflicts = edits.some((edit, index) =>
+      [...accepted, ...edits.slice(index + 1)].some((other) => overlaps(edit, other))
+    );
+    if (conflicts) continue;
+    accepted.push(...edits);
+    applied.push(issue);
+  }
+
+  let output = content;
+  for (const edit of accepted.sort((a, b) => b.offset - a.offset)) {
+    output = output.slice(0, edit.offset) + edit.text + output.slice(edit.endOffset);
+  }
+  return { content: output, applied };
+}
+
+/**
+ * Merge adjacent removals of one fix, e.g. of consecutive members.
+ */
+function mergeRemovals(edits: TextEdit[]): TextEdit[] {
+  const merged: TextEdit[] = [];
+  for (const edit of [...edits].sort((a, b) => a.offset - b.offset)) {
+    const last = merged[merged.length - 1];
+    if (last && last.text === "" && edit.text === "" && edit.offset <= last.endOffset) {
+      last.endOffset = Math.max(last.endOffset, edit.endOffset);
+      last.lines = last.lines && edit.lines;
+    } else {
+      merged.push({ ...edit });
+    }
+  }
+  return merged;
+}
+
+function overlaps(a: TextEdit, b: TextEdit): boolean {
+  return a.offset < b.endOffset && b.offset < a.endOffset;
+}
+
+/**
+ * Turn a fix edit into a text edit, or undefined if the node was not
+ * recorded in this source.
+ */
+function locate(
+  content: string,
+  format: string,
+  locations: LocationMap,
+  edit: FixEdit,
+  options: ApplyFixesOptions
+): TextEdit | undefined {
+  const location = locations.get(edit.path);
+  // Nodes inherited through `extends` live in another file
+  if (!location || location.file !== undefined) return undefined;
+  const { key } = location;
+  const value = { offset: location.value.offset, endOffset: location.value.endOffset };
+  // Keys are not interpolated
+  if (
+    options.keepPlaceholders &&
+    edit.kind !== "rename-key" &&
+    containsPlaceholder(content.slice(value.offset, value.endOffset))
+  ) {
+    return undefined;
+  }
+
+  switch (edit.kind) {
+    case "set-value": {
+      const original = content.slice(value.offset, value.endOffset);
+      return { ...value, text: renderScalar(format, edit.value, original) };
+    }
+    case "rename-key": {
+      if (!key) return undefined;
+      const text = renderScalar(format, edit.key, content.slice(key.offset, key.endOffset));
+      return { offset: key.offset, endOffset: key.endOffset, text };
+    }
+    case "remove":
+      if (!key) return undefined;
+      return removal(content, key.offset, value.endOffset, format);
+  }
+}
+
+/**
+ * Render a scalar for the source format, keeping the quoting style of the
+ * value it replaces where possible.
+ */
+function renderScalar(format: string, value: string | number | boolean | null, original: string): string {
+  if (format !== "yaml" || typeof value !== "string") return JSON.stringify(value);
+  if (original.startsWith("'")) return `'${value.replace(/'/g, "''")}'`;
+  if (original.startsWith('"')) return JSON.stringify(value);
+  return isPlainString(value) ? value : JSON.stringify(value);
+}
+
+/**
+ * Whether a string can be written as a YAML plain scalar and read back
+ * as the same string.
+ */
+function isPlainString(value: string): boolean {
+  if (value === "" || /[\n#:]/.test(value)) return false;
+  try {
+    return parseYaml(value) === value;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Remove a mapping member with the comma after it. Members on lines of
+ * their own are removed with their lines.
+ */
+function removal(content: string, start: number, end: number, format: string): TextEdit {
+  const lineStart = content.lastIndexOf("\n", start - 1) + 1;
+  const startsLine = /^[ \t]*$/.test(content.slice(lineStart, start));
+
+  let after = skipSpaces(content, end);
+  const comma = content[after] === ",";
+  if (comma) after = skipSpaces(content, after + 1);
+  if (content.startsWith(format === "yaml" ? "#" : "//", after)) {
+    while (after < content.length && content[after] !== "\n") after++;
+  }
+  if (content[after] === "\r") after++;
+
+  if (startsLine && (after === content.length || content[after] === "\n")) {
+    return { offset: lineStart, endOffset: Math.min(after + 1, content.length), text: "", lines: true };
+  }
+  return { offset: start, endOffset: comma ? after : end, text: "" };
+}
+
+/**
+ * When a removal leaves a comma before a closing bracket, as after
+ * removing the last members of a JSON object, remove that comma too.
+ */
+function detachComma(content: string, edit: TextEdit, format: string): TextEdit {
+  if (edit.text !== "" || (format === "yaml" && edit.lines)) return edit;
+  let next = edit.endOffset;
+  while (next < content.length && /\s/.test(content[next] as string)) next++;
+  if (content[next] !== "}" && content[next] !== "]") return edit;
+  const comma = previousComma(content, edit.offset);
+  if (comma === undefined) return edit;
+  // Keep the line break before the closing bracket
+  let endOffset = edit.endOffset;
+  if (edit.lines && content[endOffset - 1] === "\n") endOffset -= content[endOffset - 2] === "\r" ? 2 : 1;
+  return { ...edit, offset: comma, endOffset };
+}
+
+/**
+ * Offset of a comma before `offset`, with only whitespace in between.
+ */
+function previousComma(content: string, offset: number): number | undefined {
+  let i = offset - 1;
+  while (i >= 0 && /\s/.test(content[i] as string)) i--;
+  return content[i] === "," ? i : undefined;
+}
+
+function skipSpaces(content: string, offset: number): number {
+  while (content[offset] === " " || content[offset] === "\t") offset++;
+  return offset;
+}
@@ -0,0 +1,125 @@
+import { LocationMap, SourceRange, ValidationIssue } from "../types";
+
+/**
+ * Converts string offsets into 1-based line/column positions.
+ */
+export class LineIndex {
+  private readonly lineStarts: number[] = [0];
+
+  constructor(content: string) {
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === "\n") this.lineStarts.push(i + 1);
+    }
+  }
+
+  /**
+   * Get the 1-based line and column of an offset.
+   */
+  position(offset: number): { line: number; column: number } {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if ((this.lineStarts[mid] ?? 0) <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - (this.lineStarts[low] ?? 0) + 1 };
+  }
+
+  /**
+   * Build a source range from start (inclusive) and end (exclusive) offsets.
+   */
+  range(offset: number, endOffset: number): SourceRange {
+    const start = this.position(offset);
+    const end = this.position(endOffset);
+    return {
+      offset,
+      endOffset,
+      line: start.line,
+      column: start.column,
+      endLine: end.line,
+      endColumn: end.column
+    };
+  }
+}
+
+/**
+ * Build the issue path of a child node: `rules.foo` or `rules.list[0]`.
+ */
+export function childPath(parent: string, key: string | number): string {
+  if (typeof key === "number") return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Get the path of the enclosing node, or undefined for the root.
+ */
+export function parentPath(issuePath: string): string | undefined {
+  if (!issuePath) return undefined;
+  const index = Math.max(issuePath.lastIndexOf("."), issuePath.lastIndexOf("["));
+  return index === -1 ? "" : issuePath.slice(0, index);
+}
+
+/**
+ * Remove the location of a node and all of its descendants, used when a
+ * later definition replaces the node.
+ */
+export function forgetLocations(locations: LocationMap, path: string): void {
+  for (const key of Array.from(locations.keys())) {
+    if (key === path || key.startsWith(`${path}.`) || key.startsWith(`${path}[`)) {
+      locations.delete(key);
+    }
+  }
+}
+
+/**
+ * Attach file and position information to issues. Issues that already
+ * carry a position keep it. Issues whose path was not recorded (e.g. a
+ * missing key) point at the nearest enclosing node.
+ * The range covers the value when it sits on one line with its key,
+ * otherwise the key. Locations recorded in another file (see
+ * {@link SourceNodeLocation.file}) attribute the issue to that file.
+ */
+export function attachLocations(
+  issues: ValidationIssue[],
+  locations: LocationMap | undefined,
+  file: string
+): ValidationIssue[] {
+  return issues.map((issue) => {
+    if (issue.file !== undefined) return issue;
+    // Issues positioned by the parser only need the file
+    if (issue.line !== undefined || issue.path.startsWith("$")) {
+      const related = issue.related?.map((entry) => ({ file, ...entry }));
+      return related ? { ...issue, file, related } : { ...issue, file };
+    }
+
+    let lookup: string | undefined = issue.path;
+    while (lookup !== undefined && !locations?.has(lookup)) {
+      lookup = parentPath(lookup);
+    }
+    const location = lookup !== undefined ? locations?.get(lookup) : undefined;
+    if (!location) return { ...issue, file };
+
+    const { key, value } = location;
+    const source = location.file ?? file;
+    const inline = value.line === value.endLine && (!key || key.line === value.line);
+    const range = inline || !key ? value : key;
+    return {
+      ...issue,
+      file: source,
+      line: range.line,
+      column: range.column,
+      endLine: range.endLine,
+      endColumn: range.endColumn
+    };
+  });
+}
+
+/**
+ * Format an issue location as `file:line:column`.
+ */
+export function formatLocation(issue: ValidationIssue): string | undefined {
+  if (issue.file === undefined) return undefined;
+  if (issue.line === undefined) return issue.file;
+  return `${issue.file}:${issue.line}:${issue.column ?? 1}`;
+}
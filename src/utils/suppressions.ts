@@ -0,0 +1,128 @@
+import { SourceComment, SuppressedIssue, ValidationIssue } from "../types";
+
+/**
+ * Inline suppression comments:
+ *
+ * ```yaml
+ * # helix-disable-next-line ruleset/deprecated-pattern -- kept for old clients
+ * oldClients: true
+ * legacyMode: true  # helix-disable-line
+ * ```
+ *
+ * A directive lists the rules it suppresses, separated by commas or
+ * spaces, or suppresses every issue on its line when it lists none. Text
+ * after ` -- ` is the reason, kept with the suppressed issues.
+ */
+
+const DIRECTIVE = /^\s*helix-disable-(next-line|line)(?=\s|$)(.*)$/s;
+
+interface Directive {
+  kind: "line" | "next-line";
+  line: number;
+  column: number;
+  /** Line whose issues the directive suppresses. */
+  target: number;
+  rules: string[];
+  reason?: string;
+  /** Rules that suppressed an issue; `*` for a directive without rules. */
+  used: Set<string>;
+}
+
+/**
+ * The suppression comments of one file. Only issues located in that file
+ * are suppressed, so comments in extended configs do not apply.
+ */
+export class Suppressions {
+  /** Issues removed by a directive, in the order they were reported. */
+  readonly suppressed: SuppressedIssue[] = [];
+  private readonly directives: Directive[];
+  private readonly file: string;
+
+  constructor(comments: SourceComment[], file: string) {
+    this.file = file;
+    this.directives = comments.flatMap((comment) => {
+      const directive = parseDirective(comment);
+      return directive ? [directive] : [];
+    });
+  }
+
+  /**
+   * Remove the issues suppressed by a directive, keeping them in
+   * {@link suppressed}.
+   */
+  apply(issues: ValidationIssue[]): ValidationIssue[] {
+    if (this.directives.length === 0) return issues;
+    return issues.filter((issue) => {
+      const directive = this.directives.find((candidate) => this.matches(candidate, issue));
+      if (!directive) return true;
+      directive.used.add(directive.rules.length === 0 ? "*" : issue.rule);
+      this.suppressed.push(directive.reason === undefined ? issue : { ...issue, reason: directive.reason });
+      return false;
+    });
+  }
+
+  /**
+   * Report directives, or rules listed in them, that suppressed no issue
+   * as `suppression/unused` warnings.
+   */
+  unused(): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    for (const directive of this.directives) {
+      const name = `helix-disable-${directive.kind}`;
+      const report = (message: string): void => {
+        issues.push({
+          path: "$file",
+          message,
+          severity: "warn",
+          rule: "suppression/unused",
+          file: this.file,
+          line: directive.line,
+          column: directive.column
+        });
+      };
+
+      if (directive.rules.length === 0) {
+        if (directive.used.size === 0) report(`Unused ${name} directive: no issues were reported on line ${directive.target}.`);
+        continue;
+      }
+      for (const rule of directive.rules) {
+        if (!directive.used.has(rule)) {
+          report(`Unused ${name} directive: no "${rule}" issues were reported on line ${directive.target}.`);
+        }
+      }
+    }
+    return issues;
+  }
+
+  private matches(directive: Directive, issue: ValidationIssue): boolean {
+    return (
+      issue.file === this.file &&
+      issue.line === directive.target &&
+      (directive.rules.length === 0 || directive.rules.includes(issue.rule))
+    );
+  }
+}
+
+function parseDirective(comment: SourceComment): Directive | undefined {
+  const match = DIRECTIVE.exec(comment.text);
+  if (!match) return undefined;
+
+  const kind = match[1] as Directive["kind"];
+  let rest = match[2] as string;
+  let reason: string | undefined;
+  const separator = rest.search(/(^|\s)--(\s|$)/);
+  if (separator !== -1) {
+    reason = rest.slice(separator).replace(/^\s*--/, "").trim() || undefined;
+    rest = rest.slice(0, separator);
+  }
+
+  return {
+    kind,
+    line: comment.line,
+    column: comment.column,
+    target: kind === "line" ? comment.line : comment.line + 1,
+    rules: rest.split(/[\s,]+/).filter(Boolean),
+    reason,
+    used: new Set()
+  };
+}
@@ -1,17 +1,40 @@
+import { readFileSync } from "node:fs";
 import { readFile, stat } from "node:fs/promises";
 import path from "node:path";
-import { evaluateRules } from "./rules/ruleset";
+import { resolveExtends } from "./loaders/config-extends";
+import { DecodedText, decodeText, InvalidEncodingError } from "./loaders/encoding";
+import { interpolateEnv } from "./loaders/env-interpolation";
+import { GitSource } from "./loaders/git-source";
+import { checkFileSize, checkValueLimits, LimitExceededError, limitIssue, resolveLimits } from "./loaders/limits";
+import { LoaderRegistry } from "./loaders/loader-registry";
+import { PluginRegistry } from "./plugins/rule-plugin";
+import { JsonSchema, validateJsonSchema } from "./rules/json-schema";
+import { evaluateRules, ResolvedRuleset } from "./rules/ruleset";
+import { parseRulesetsFile, RulesetRegistry } from "./rules/ruleset-registry";
+import { DeprecationRegistry } from "./rules/deprecations";
+import { CompiledPolicy, compilePolicies, evaluatePolicies, parsePolicyFile } from "./rules/policy";
 import { validateSchema } from "./rules/schema";
+import { ConfigResolver } from "./utils/config-resolver";
 import { Logger } from "./utils/logger";
+import { attachLocations, childPath, formatLocation } from "./utils/source-locations";
+import { Suppressions } from "./utils/suppressions";
+import { Baseline } from "./utils/baseline";
+import { applyFixes } from "./utils/fixes";
 import {
+  DocumentResult,
+  FixResult,
   HelixConfig,
+  LoadLimits,
+  ParsedConfig,
+  SuppressedIssue,
   ValidationIssue,
+  ValidateTextOptions,
   ValidationResult,
   ValidatorOptions
 } from "./types";
 
 interface CacheEntry {
-  config: HelixConfig;
+  parsed: ParsedConfig;
   timestamp: number;
   mtime: number;
 }
@@ -19,66 +42,424 @@ interface CacheEntry {
 export class HelixValidator {
   private logger: Logger;
   private options: ValidatorOptions;
+  private loaders: LoaderRegistry;
+  private plugins: PluginRegistry;
+  private resolver: ConfigResolver;
   private cache: Map<string, CacheEntry>;
+  private limits: Required<LoadLimits>;
+  private schemas: Map<string, JsonSchema> = new Map();
+  private rulesets: RulesetRegistry;
+  private ruleset: ResolvedRuleset;
+  private policies: CompiledPolicy[];
+  private deprecations: DeprecationRegistry;
+  private baseline?: Baseline;
+  private readonly maxFixPasses: number = 10;
   private readonly cacheTtl: number = 5000; // 5 seconds
   private readonly maxCacheSize: number = 50; // LRU cache limit
 
   constructor(options: ValidatorOptions = {}) {
     this.options = options;
     this.logger = new Logger({ level: options.strict ? "warn" : "info" });
+    this.limits = resolveLimits(options.limits);
+    this.loaders = LoaderRegistry.withDefaults({
+      logger: this.logger,
+      jsonc: options.jsonc,
+      limits: this.limits
+    });
+    for (const loader of options.loaders ?? []) {
+      this.loaders.unregister(loader.format);
+      this.loaders.register(loader);
+    }
+    this.plugins = new PluginRegistry();
+    for (const plugin of options.plugins ?? []) {
+      this.plugins.register(plugin);
+    }
+    this.resolver = new ConfigResolver(this.logger);
+    for (const searchPath of options.searchPaths ?? []) {
+      this.resolver.addSearchPath(searchPath);
+    }
     this.cache = new Map();
+    this.rulesets = RulesetRegistry.withDefaults();
+    if (options.rulesetsFile) {
+      const file = path.resolve(options.rulesetsFile);
+      for (const ruleset of parseRulesetsFile(this.readDataFile(file, "rulesets"), file)) {
+        this.rulesets.register(ruleset);
+      }
+    }
+    for (const ruleset of options.rulesets ?? []) {
+      this.rulesets.register(ruleset);
+    }
+    this.ruleset = this.rulesets.resolve(options.ruleset ?? "default");
+    this.deprecations = DeprecationRegistry.withDefaults();
+    for (const entry of options.deprecations ?? []) {
+      this.deprecations.register(entry);
+    }
+    this.policies = compilePolicies(options.policies ?? []);
+    if (options.policyFile) {
+      const file = path.resolve(options.policyFile);
+      const fromFile = parsePolicyFile(this.readDataFile(file, "policy"), file);
+      const ids = new Set(fromFile.map((policy) => policy.definition.id));
+      const duplicate = this.policies.find((policy) => ids.has(policy.definition.id));
+      if (duplicate) throw new Error(`Policy "${duplicate.definition.id}" is declared twice`);
+      this.policies.unshift(...fromFile);
+    }
+    if (options.baseline !== undefined) {
+      this.baseline = typeof options.baseline === "string" ? Baseline.read(options.baseline) : options.baseline;
+    }
+  }
+
+  /**
+   * The registered rulesets, including the built-in ones.
+   */
+  getRulesets(): RulesetRegistry {
+    return this.rulesets;
+  }
+
+  /**
+   * The registered deprecations, including the built-in ones.
+   */
+  getDeprecations(): DeprecationRegistry {
+    return this.deprecations;
   }
 
   async validateFile(filePath: string): Promise<ValidationResult> {
     const started = Date.now();
-    let config: HelixConfig;
+    let parsed: ParsedConfig;
     
     try {
-      config = await this.loadConfig(filePath);
+      parsed = await this.loadConfig(filePath);
     } catch (error) {
-      // Return early validation result for file loading errors
-      const issue: ValidationIssue = {
-        path: "$file",
-        message: `Failed to load config: ${(error as Error).message}`,
-        severity: "error",
-        rule: "io/load-error"
-      };
-      const summary = this.buildSummary([issue]);
-      const format = this.options.format ?? "text";
-      return {
-        ok: false,
-        issues: [issue],
-        summary: this.render(summary, [issue], format),
-        elapsedMs: Date.now() - started,
-        format
-      };
+      return this.loadFailure(error, filePath, started);
     }
     
-    const result = this.validateConfig(config);
-    const elapsedMs = Date.now() - started;
+    return this.validateParsed(parsed, filePath, started);
+  }
+
+  /**
+   * Validate config content that is not read from disk, e.g. piped through
+   * stdin. Runs the same pipeline as validateFile; `extends` paths are
+   * resolved relative to the filename. Raw bytes are decoded like files.
+   */
+  async validateText(
+    content: string | Uint8Array,
+    options: ValidateTextOptions = {}
+  ): Promise<ValidationResult> {
+    const filename = options.filename ?? "<stdin>";
+    return this.validateContent(content, filename, filename, options.format, Date.now());
+  }
+
+  /**
+   * Validate a config file as committed at a git revision or as staged in
+   * the index, e.g. for code review. The content runs through the same
+   * pipeline as validateFile and issues in the file are labelled with the
+   * revision (`HEAD~1:config.json`). `extends` targets are read from the
+   * working tree.
+   */
+  async validateRevision(filePath: string, source: GitSource): Promise<ValidationResult> {
+    const started = Date.now();
+    const label = source.label(filePath);
+    let content: Buffer;
+
+    try {
+      content = await source.read(filePath, this.limits.maxFileSize);
+    } catch (error) {
+      return this.loadFailure(error, label, started);
+    }
+
+    return this.validateContent(content, source.resolve(filePath), label, undefined, started);
+  }
+
+  /**
+   * Apply the fixes attached to a file's issues and validate the result,
+   * repeating while fixes apply (fixes that overlap are applied in later
+   * passes). Only reported issues are fixed: suppressed, baselined and
+   * disabled ones are not, and neither are values holding `${...}`
+   * placeholders when interpolating. Fixes are applied to JSON and YAML
+   * files; the file itself is not written (`encodeText` restores its
+   * encoding).
+   */
+  async fixFile(filePath: string): Promise<FixResult> {
+    const bytes = await readFile(filePath);
+    let decoded: DecodedText;
+    try {
+      decoded = decodeText(bytes);
+    } catch (error) {
+      if (!(error instanceof InvalidEncodingError)) throw error;
+      // Nothing to fix; report the encoding error like validateFile
+      const { text, encoding, bom } = decodeText(bytes, { fatal: false });
+      const result = await this.validateText(bytes, { filename: filePath });
+      return { original: text, output: text, fixed: [], result, encoding, bom };
+    }
+
+    const { text: original, encoding, bom } = decoded;
+    let output = original;
+    const fixed: ValidationIssue[] = [];
+    let result = await this.validateText(output, { filename: filePath });
+
+    for (let pass = 0; pass < this.maxFixPasses; pass++) {
+      let parsed: ParsedConfig;
+      try {
+        parsed = this.parseContent(output, filePath);
+      } catch {
+        break;
+      }
+      const applied = applyFixes(output, parsed, result.issues, {
+        keepPlaceholders: this.options.interpolateEnv
+      });
+      if (applied.applied.length === 0) break;
+      output = applied.content;
+      fixed.push(...applied.applied);
+      result = await this.validateText(output, { filename: filePath });
+    }
+
+    return { original, output, fixed, result, encoding, bom };
+  }
+
+  /**
+   * Validate config content that was not read from the file itself. The
+   * filename selects the format and anchors `extends` paths; the label
+   * names the source in issues.
+   */
+  private async validateContent(
+    content: string | Uint8Array,
+    filename: string,
+    label: string,
+    format: string | undefined,
+    started: number
+  ): Promise<ValidationResult> {
+    let parsed: ParsedConfig;
+
+    try {
+      const size = typeof content === "string" ? Buffer.byteLength(content) : content.byteLength;
+      checkFileSize(size, this.limits.maxFileSize);
+      const text = typeof content === "string" ? content : decodeText(content).text;
+      parsed = this.parseContent(text, filename, format);
+    } catch (error) {
+      return this.loadFailure(error, label, started);
+    }
+
+    return this.validateParsed(parsed, filename, started, label);
+  }
+
+  /**
+   * Validate an in-memory config object. Plugins are asynchronous and only
+   * run through validateFile and validateText, which also resolve `extends`.
+   */
+  validateConfig(config: HelixConfig): ValidationResult {
+    const parsed = this.interpolate({ config, format: "object" });
+    return this.buildResult(this.applySeverities([...(parsed.issues ?? []), ...this.collectIssues(parsed.config)]), 0);
+  }
+
+  /**
+   * Expand environment placeholders when interpolation is enabled.
+   */
+  private interpolate(parsed: ParsedConfig): ParsedConfig {
+    if (!this.options.interpolateEnv) return parsed;
+    return interpolateEnv(parsed, this.options.env ?? process.env);
+  }
+
+  private async validateParsed(
+    parsed: ParsedConfig,
+    filePath: string,
+    started: number,
+    label: string = filePath
+  ): Promise<ValidationResult> {
+    let result: ValidationResult;
+    const suppressions = new Suppressions(parsed.comments ?? [], label);
+    const known = this.baseline?.matcher(filePath);
+    const filter = (issues: ValidationIssue[]): ValidationIssue[] => {
+      const kept = suppressions.apply(issues);
+      return known ? known.apply(kept) : kept;
+    };
+    // Unused suppressions and fixed baseline entries belong to the file
+    // rather than to a document
+    const fileIssues = (): ValidationIssue[] => [
+      ...(this.options.reportUnusedSuppressions ? this.applySeverities(suppressions.unused()) : []),
+      ...(known?.fixed(label) ?? [])
+    ];
+
+    if (parsed.documents && parsed.documents.length > 1) {
+      // Each document is a separate config, validated on its own
+      const documents: DocumentResult[] = [];
+      for (const [index, document] of parsed.documents.entries()) {
+        const issues = (await this.collectFileIssues(document, filePath, label)).map((issue) => ({
+          ...issue,
+          document: index
+        }));
+        const kept = filter(issues);
+        documents.push({ index, ok: this.computeOk(kept), issues: kept });
+      }
+      const extra = fileIssues();
+      result = this.buildResult(
+        [...documents.flatMap((document) => document.issues), ...extra],
+        Date.now() - started,
+        suppressions.suppressed
+      );
+      result.ok = documents.every((document) => document.ok) && this.computeOk(extra);
+      result.documents = documents;
+    } else {
+      const issues = filter(await this.collectFileIssues(parsed, filePath, label));
+      result = this.buildResult([...issues, ...fileIssues()], Date.now() - started, suppressions.suppressed);
+    }
+    if (known && known.known.length > 0) result.baselined = known.known;
     
-    this.logger.debug(`Validation completed in ${elapsedMs}ms`);
+    this.logger.debug(`Validation completed in ${result.elapsedMs}ms`);
     if (!result.ok) {
       const errorCount = result.issues.filter(i => i.severity === "error").length;
       this.logger.warn(`Validation failed: ${errorCount} errors`);
     }
     
-    return { ...result, elapsedMs };
+    return result;
   }
 
-  validateConfig(config: HelixConfig): ValidationResult {
+  /**
+   * Run the checks for one config read from a file: resolve `extends`,
+   * interpolate, validate and locate the issues, naming the file by its label.
+   */
+  private async collectFileIssues(
+    parsed: ParsedConfig,
+    filePath: string,
+    label: string
+  ): Promise<ValidationIssue[]> {
+    parsed = await resolveExtends(filePath, parsed, {
+      resolver: this.resolver,
+      load: (file) => this.loadConfig(file)
+    });
+    parsed = this.interpolate(parsed);
+    
+    const issues = [
+      ...(parsed.issues ?? []),
+      ...this.collectIssues(parsed.config),
+      ...(await this.plugins.validateAll(parsed.config))
+    ];
+    return attachLocations(this.applySeverities(issues), parsed.locations, label);
+  }
+
+  /**
+   * Apply the configured severity overrides, dropping issues of rules that
+   * are turned off.
+   */
+  private applySeverities(issues: ValidationIssue[]): ValidationIssue[] {
+    const severities = this.options.severities;
+    if (!severities) return issues;
+    const result: ValidationIssue[] = [];
+    for (const issue of issues) {
+      const severity = Object.prototype.hasOwnProperty.call(severities, issue.rule) ? severities[issue.rule] : undefined;
+      if (severity === "off") continue;
+      result.push(severity ? { ...issue, severity } : issue);
+    }
+    return result;
+  }
+
+  /**
+   * Build the result for a config that could not be read or parsed.
+   */
+  private loadFailure(error: unknown, filePath: string, started: number): ValidationResult {
+    if (error instanceof LimitExceededError) {
+      return this.buildResult([limitIssue(error, filePath)], Date.now() - started);
+    }
+    const encoding = error instanceof InvalidEncodingError;
+    const issue: ValidationIssue = {
+      path: "$file",
+      message: encoding ? error.message : `Failed to load config: ${(error as Error).message}`,
+      severity: "error",
+      rule: encoding ? "io/invalid-encoding" : "io/load-error",
+      file: filePath,
+      ...errorPosition(error)
+    };
+    return this.buildResult([issue], Date.now() - started);
+  }
+
+  private collectIssues(config: HelixConfig): ValidationIssue[] {
     const schemaIssues = validateSchema(config);
     const rulesetIssues = evaluateRules(config, {
-      name: this.options.ruleset
+      ruleset: this.ruleset,
+      catalog: this.options.ruleCatalog,
+      deprecations: this.deprecations
     });
-    const issues = [...schemaIssues, ...rulesetIssues];
+    const policyIssues = evaluatePolicies(config, this.policies);
+    return [...schemaIssues, ...rulesetIssues, ...policyIssues, ...this.collectJsonSchemaIssues(config)];
+  }
+
+  /**
+   * Apply the configured JSON Schemas to the config and to the values of
+   * the rules they are registered for.
+   */
+  private collectJsonSchemaIssues(config: HelixConfig): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const apply = (source: string | JsonSchema, value: unknown, at: string): void => {
+      try {
+        issues.push(...validateJsonSchema(value, this.loadSchema(source), at));
+      } catch (error) {
+        issues.push({
+          path: "$file",
+          message: `Failed to load JSON Schema: ${(error as Error).message}`,
+          severity: "error",
+          rule: "json-schema/load-error",
+          ...(typeof source === "string" ? { file: path.resolve(source) } : {})
+        });
+      }
+    };
+
+    if (this.options.schema !== undefined) apply(this.options.schema, config, "");
+    const rules = config.rules ?? {};
+    for (const [name, source] of Object.entries(this.options.ruleSchemas ?? {})) {
+      if (Object.prototype.hasOwnProperty.call(rules, name)) {
+        apply(source, rules[name], childPath("rules", name));
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Read a JSON Schema file (JSON, YAML or TOML) once; schemas given as
+   * values are used as they are.
+   */
+  private loadSchema(source: string | JsonSchema): JsonSchema {
+    if (typeof source !== "string") return source;
+    const resolved = path.resolve(source);
+    let schema = this.schemas.get(resolved);
+    if (schema === undefined) {
+      schema = this.readDataFile(resolved, "schema") as JsonSchema;
+      this.schemas.set(resolved, schema);
+    }
+    return schema;
+  }
+
+  /**
+   * Read a rulesets, policy or schema file (JSON, YAML or TOML).
+   * @throws Error for unsupported formats and syntax errors
+   */
+  private readDataFile(filePath: string, kind: string): unknown {
+    const text = decodeText(readFileSync(filePath)).text;
+    const loader = this.loaders.resolve(filePath, text);
+    if (!loader) throw new Error(`Unsupported ${kind} file format: ${filePath}`);
+    const parsed = loader.parse(text, filePath);
+    const syntaxError = parsed.issues?.find((issue) => issue.severity === "error");
+    if (syntaxError) throw new Error(`${filePath}: ${syntaxError.message}`);
+    return parsed.config;
+  }
+
+  private buildResult(
+    issues: ValidationIssue[],
+    elapsedMs: number,
+    suppressed: SuppressedIssue[] = []
+  ): ValidationResult {
     const summary = this.buildSummary(issues);
     const ok = this.computeOk(issues);
     const format = this.options.format ?? "text";
-    return { ok, issues, summary: this.render(summary, issues, format), elapsedMs: 0, format };
+    const result: ValidationResult = {
+      ok,
+      issues,
+      summary: this.render(summary, issues, format, suppressed),
+      elapsedMs,
+      format
+    };
+    if (suppressed.length > 0) result.suppressed = suppressed;
+    return result;
   }
 
-  private async loadConfig(filePath: string): Promise<HelixConfig> {
+  private async loadConfig(filePath: string): Promise<ParsedConfig> {
     const resolved = path.resolve(filePath);
     this.logger.info(`Loading config from ${resolved}`);
     
@@ -87,6 +468,8 @@ export class HelixValidator {
     if (!stats.isFile()) {
       throw new Error(`Path is not a file: ${resolved}`);
     }
+    // Refuse oversized files before reading them into memory
+    checkFileSize(stats.size, this.limits.maxFileSize);
 
     // Check cache with mtime validation for better cache invalidation
     const cached = this.cache.get(resolved);
@@ -95,7 +478,7 @@ export class HelixValidator {
         (now - cached.timestamp < this.cacheTtl) && 
         cached.mtime === stats.mtimeMs) {
       this.logger.debug(`Using cached config for ${resolved}`);
-      return cached.config;
+      return cached.parsed;
     }
 
     // Enforce LRU cache size limit
@@ -107,18 +490,36 @@ export class HelixValidator {
       }
     }
 
-    // Read and parse file
-    const file = await readFile(resolved, "utf8");
-    const config = JSON.parse(file) as HelixConfig;
+    // Read raw bytes so BOMs, UTF-16 and invalid sequences are detected
+    const { text } = decodeText(await readFile(resolved));
+    const parsed = this.parseContent(text, resolved);
     
     // Cache the parsed config with mtime for change detection
     this.cache.set(resolved, { 
-      config, 
+      parsed, 
       timestamp: now,
       mtime: stats.mtimeMs 
     });
     
-    return config;
+    return parsed;
+  }
+
+  /**
+   * Parse content with the loader for the given format, or the loader
+   * matching the file's extension or content, and check the parsed
+   * configs against the depth, key and string limits.
+   */
+  private parseContent(content: string, filePath: string, format?: string): ParsedConfig {
+    const loader = format ? this.loaders.get(format) : this.loaders.resolve(filePath, content);
+    if (!loader) {
+      throw new Error(`Unsupported config format: ${format ?? filePath}`);
+    }
+    this.logger.debug(`Parsing ${filePath} as ${loader.format}`);
+    const parsed = loader.parse(content, filePath);
+    for (const document of parsed.documents ?? [parsed]) {
+      checkValueLimits(document.config, this.limits, document.locations);
+    }
+    return parsed;
   }
 
   private buildSummary(issues: ValidationIssue[]) {
@@ -145,18 +546,22 @@ export class HelixValidator {
   private render(
     summary: { errors: number; warnings: number; infos: number; total: number },
     issues: ValidationIssue[],
-    format: "text" | "json"
+    format: "text" | "json",
+    suppressed: SuppressedIssue[]
   ): string {
     if (format === "json") {
-      return JSON.stringify({ summary, issues }, null, 2);
+      return JSON.stringify(suppressed.length > 0 ? { summary, issues, suppressed } : { summary, issues }, null, 2);
     }
 
-    const header = `Helix X validation: ${summary.errors} errors, ${summary.warnings} warnings, ${summary.infos} info`;
+    const counts = `${summary.errors} errors, ${summary.warnings} warnings, ${summary.infos} info`;
+    const header = `Helix X validation: ${counts}${suppressed.length > 0 ? `, ${suppressed.length} suppressed` : ""}`;
     const body = issues
-      .map(
-        (issue) =>
-          `- [${issue.severity}] (${issue.rule}) ${issue.path}: ${issue.message}`
-      )
+      .map((issue) => {
+        const location = formatLocation(issue);
+        const where = location ? ` (${location})` : "";
+        const document = issue.document !== undefined ? ` [document ${issue.document}]` : "";
+        return `- [${issue.severity}] (${issue.rule}) ${issue.path}${where}${document}: ${issue.message}`;
+      })
       .join("\n");
     return [header, body].filter(Boolean).join("\n");
   }
@@ -177,3 +582,13 @@ export class HelixValidator {
   }
 }
 
+/**
+ * Extract the line/column carried by parser syntax errors.
+ */
+function errorPosition(error: unknown): Pick<ValidationIssue, "line" | "column"> {
+  const { line, column } = error as { line?: unknown; column?: unknown };
+  if (typeof line === "number" && typeof column === "number") {
+    return { line, column };
+  }
+  return {};
+}
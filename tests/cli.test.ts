@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals";
+import { execFileSync, spawnSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import ts from "typescript";
+
+const root = path.resolve(__dirname, "..");
+const tempDir = mkdtempSync(path.join(tmpdir(), "helix-cli-"));
+const buildDir = path.join(tempDir, "dist");
+
+interface CliRun {
+  status: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run the built CLI, by default in the temporary directory.
+ */
+function run(args: string[], options: { input?: string; cwd?: string } = {}): CliRun {
+  const result = spawnSync(process.execPath, [path.join(buildDir, "cli.js"), ...args], {
+    cwd: options.cwd ?? tempDir,
+    input: options.input,
+    encoding: "utf8",
+    env: { ...process.env, NODE_PATH: path.join(root, "node_modules") },
+    timeout: 30_000
+  });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+function writeConfig(name: string, content: string): string {
+  writeFileSync(path.join(tempDir, name), content);
+  return name;
+}
+
+describe("helix-validate", () => {
+  // Build the CLI as CommonJS: the sources import modules without file
+  // extensions, which Node's ESM loader does not resolve
+  beforeAll(() => {
+    const program = ts.createProgram([path.join(root, "src/cli.ts")], {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      rootDir: path.join(root, "src"),
+      outDir: buildDir
+    });
+    if (program.emit().emitSkipped) throw new Error("Failed to build the CLI");
+    writeFileSync(path.join(buildDir, "package.json"), '{ "type": "commonjs" }\n');
+  }, 120_000);
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should validate a config file", () => {
+    const file = writeConfig("valid.json", '{ "name": "demo", "version": "1.0.0", "rules": { "allowParallel": true } }');
+
+    const result = run([file]);
+    expect(result.stderr).toBe("");
+    expect(result.stdout).toContain("Helix X validation: 0 errors, 0 warnings, 0 info");
+    expect(result.status).toBe(0);
+  });
+
+  it("should print fixes with --fix-dry-run and apply them with --fix", () => {
+    const original = '{ "name": "Demo App", "version": "1.0", "rules": { "allowParallel": true } }\n';
+    const file = writeConfig("fixable.json", original);
+
+    const dryRun = run([file, "--fix-dry-run"]);
+    expect(dryRun.stdout).toContain(`--- a/${file}\n+++ b/${file}\n`);
+    expect(dryRun.stderr).toContain(`Would fix 2 issues in ${file}`);
+    expect(readFileSync(path.join(tempDir, file), "utf8")).toBe(original);
+
+    const fixed = run([file, "--fix"]);
+    expect(fixed.status).toBe(0);
+    expect(readFileSync(path.join(tempDir, file), "utf8")).toBe(
+      '{ "name": "demoapp", "version": "1.0.0", "rules": { "allowParallel": true } }\n'
+    );
+
+    const both = run([file, "--fix", "--fix-dry-run"]);
+    expect(both.status).toBe(1);
+    expect(both.stderr).toContain("Arguments fix and fix-dry-run are mutually exclusive");
+  });
+
+  it("should keep a byte order mark when writing fixes", () => {
+    const file = writeConfig("bom.json", '\ufeff{ "name": "Demo App", "version": "1.0.0", "rules": { "a": 1 } }\n');
+
+    expect(run([file, "--fix"]).status).toBe(0);
+    expect(readFileSync(path.join(tempDir, file), "utf8")).toBe(
+      '\ufeff{ "name": "demoapp", "version": "1.0.0", "rules": { "a": 1 } }\n'
+    );
+  });
+
+  it("should validate stdin when the path is -", () => {
+    const input = 'name: demo\nversion: "1.0.0"\nrules:\n  bad key: 1\n';
+
+    const result = run(["-", "--stdin-filename", "app.yaml"], { input });
+    expect(result.stdout).toContain("(ruleset/key-format) rules.bad key (app.yaml:4:");
+    expect(result.status).toBe(1);
+  });
+
+  it("should show code frames of content not read from disk", () => {
+    const input = 'name: demo\nversion: "1.0.0"\nrules:\n  bad key: 1\n';
+    const fromStdin = run(["-", "--stdin-filename", "app.yaml", "--code-frame"], { input });
+    expect(fromStdin.stdout).toContain("> 4 |   bad key: 1");
+
+    // Dry runs report the issues of the fixed content, so frames show it too
+    const file = writeConfig("frames.json", '{\n  "name": "Demo App",\n  "version": 1\n}\n');
+    const dryRun = run([file, "--fix-dry-run", "--code-frame"]);
+    expect(dryRun.stdout).toContain('  2 |   "name": "demoapp",');
+    expect(dryRun.stdout).toContain('> 3 |   "version": 1');
+  });
+
+  it("should validate a file as committed at a revision with --rev", () => {
+    const repo = path.join(tempDir, "repo");
+    const git = (...args: string[]) =>
+      execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+        cwd: repo,
+        stdio: "pipe"
+      });
+    mkdirSync(path.join(repo, "config"), { recursive: true });
+    git("init", "-q");
+    writeFileSync(path.join(repo, "config/app.json"), '{\n  "name": "app",\n  "version": 1\n}');
+    git("add", ".");
+    git("commit", "-q", "-m", "initial");
+    writeFileSync(path.join(repo, "config/app.json"), '{\n  "name": "app",\n  "version": "1.0.0",\n  "rules": {}\n}');
+
+    const result = run(["--rev", "HEAD", "config/app.json"], { cwd: repo });
+    expect(result.stderr).not.toContain("mutually exclusive");
+    expect(result.stdout).toContain("(HEAD:config/app.json:3:14)");
+    expect(result.status).toBe(1);
+
+    const framed = run(["--rev", "HEAD", "config/app.json", "--code-frame"], { cwd: repo });
+    expect(framed.stdout).toContain('> 3 |   "version": 1');
+  });
+});
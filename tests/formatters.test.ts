@@ -0,0 +1,110 @@
+import { describe, it, expect } from "@jest/globals";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { buildCodeFrame } from "../src/formatters/code-frame";
+import { JsonFormatter } from "../src/formatters/json-formatter";
+import { TextFormatter } from "../src/formatters/text-formatter";
+import { ValidationResult } from "../src/types";
+
+const source = ['{', '  "name": "demo",', '  "version": "1.0",', '  "rules": {}', '}'].join("\n");
+
+const result: ValidationResult = {
+  ok: true,
+  issues: [
+    {
+      path: "version",
+      message: "Version should follow semver format.",
+      severity: "warn",
+      rule: "schema/version-semver",
+      file: "config.json",
+      line: 3,
+      column: 14,
+      endLine: 3,
+      endColumn: 19
+    }
+  ],
+  summary: "",
+  elapsedMs: 0,
+  format: "text"
+};
+
+describe("buildCodeFrame", () => {
+  it("should underline the location with surrounding context", () => {
+    const frame = buildCodeFrame(source, { line: 3, column: 14, endLine: 3, endColumn: 19 }, { contextLines: 1 });
+    expect(frame).toBe(
+      [
+        '  2 |   "name": "demo",',
+        '> 3 |   "version": "1.0",',
+        "    |              ^^^^^",
+        '  4 |   "rules": {}'
+      ].join("\n")
+    );
+  });
+
+  it("should underline multi-line ranges to the end of the first line", () => {
+    const frame = buildCodeFrame(source, { line: 1, column: 1, endLine: 5, endColumn: 2 }, { contextLines: 0 });
+    expect(frame).toBe(["> 1 | {", "    | ^"].join("\n"));
+  });
+
+  it("should return an empty frame for lines outside the source", () => {
+    expect(buildCodeFrame(source, { line: 42, column: 1 })).toBe("");
+  });
+});
+
+describe("TextFormatter", () => {
+  it("should print the location before the path", () => {
+    const output = new TextFormatter({ useColors: false }).format(result);
+    expect(output).toContain("[WARN] config.json:3:14: version (schema/version-semver)");
+  });
+
+  it("should render code frames from the configured source", () => {
+    const formatter = new TextFormatter({
+      useColors: false,
+      codeFrame: true,
+      codeFrameLines: 0,
+      readSource: (file) => (file === "config.json" ? source : undefined)
+    });
+
+    const output = formatter.format(result);
+    expect(output).toContain(['    > 3 |   "version": "1.0",', "        |              ^^^^^"].join("\n"));
+  });
+
+  it("should read code frame sources without their byte order mark", () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "helix-formatter-"));
+    try {
+      const file = path.join(dir, "config.json");
+      writeFileSync(file, '\ufeff{ "version": "1.0" }');
+      const formatter = new TextFormatter({ useColors: false, codeFrame: true, codeFrameLines: 0 });
+      const output = formatter.format({
+        ...result,
+        issues: [{ ...result.issues[0], file, line: 1, column: 14, endLine: 1, endColumn: 19 }]
+      });
+      expect(output).toContain(['    > 1 | { "version": "1.0" }', "        |              ^^^^^"].join("\n"));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should color the marker by severity when colors are enabled", () => {
+    const formatter = new TextFormatter({ codeFrame: true, readSource: () => source });
+    expect(formatter.format(result)).toContain("\x1b[33m^^^^^\x1b[0m");
+  });
+});
+
+describe("JsonFormatter", () => {
+  it("should include location fields in formatted issues", () => {
+    const output = JSON.parse(new JsonFormatter().format(result)) as { issues: unknown[] };
+    expect(output.issues[0]).toEqual({
+      path: "version",
+      message: "Version should follow semver format.",
+      severity: "warn",
+      rule: "schema/version-semver",
+      file: "config.json",
+      line: 3,
+      column: 14,
+      endLine: 3,
+      endColumn: 19
+    });
+  });
+});
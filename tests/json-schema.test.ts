@@ -0,0 +1,100 @@
+import { describe, it, expect } from "@jest/globals";
+import { JsonSchema, validateJsonSchema } from "../src/rules/json-schema";
+
+describe("validateJsonSchema", () => {
+  const schema: JsonSchema = {
+    $defs: {
+      port: { type: "integer", minimum: 1, maximum: 65535 },
+      endpoint: {
+        type: "object",
+        properties: {
+          host: { type: "string", format: "hostname" },
+          port: { $ref: "#/$defs/port" }
+        },
+        required: ["host"],
+        additionalProperties: false
+      }
+    },
+    type: "object",
+    properties: {
+      mode: { enum: ["fast", "safe"] },
+      ratio: { type: "number", exclusiveMinimum: 0, multipleOf: 0.1 },
+      id: { type: "string", pattern: "^[a-z]+-\\d+$" },
+      endpoints: { type: "array", items: { $ref: "#/$defs/endpoint" }, minItems: 1, uniqueItems: true },
+      retry: {
+        oneOf: [
+          { type: "boolean" },
+          { type: "object", properties: { attempts: { type: "integer" } }, required: ["attempts"] }
+        ]
+      }
+    }
+  };
+
+  it("should accept matching values", () => {
+    const value = {
+      mode: "safe",
+      ratio: 0.3,
+      id: "svc-12",
+      endpoints: [{ host: "api.example.com", port: 443 }],
+      retry: { attempts: 3 }
+    };
+    expect(validateJsonSchema(value, schema)).toEqual([]);
+  });
+
+  it("should report each violation at the path of the offending value", () => {
+    const value = {
+      mode: "turbo",
+      ratio: 0.25,
+      id: "Svc",
+      endpoints: [{ host: "-bad-", port: 70000, tls: true }, { port: 80 }],
+      retry: "yes"
+    };
+
+    expect(validateJsonSchema(value, schema, "rules.service").map(({ path, rule }) => ({ path, rule }))).toEqual([
+      { path: "rules.service.mode", rule: "json-schema/enum" },
+      { path: "rules.service.ratio", rule: "json-schema/multipleOf" },
+      { path: "rules.service.id", rule: "json-schema/pattern" },
+      { path: "rules.service.endpoints[0].host", rule: "json-schema/format" },
+      { path: "rules.service.endpoints[0].port", rule: "json-schema/maximum" },
+      { path: "rules.service.endpoints[0].tls", rule: "json-schema/additionalProperties" },
+      { path: "rules.service.endpoints[1].host", rule: "json-schema/required" },
+      { path: "rules.service.retry", rule: "json-schema/oneOf" }
+    ]);
+  });
+
+  it("should apply anyOf, allOf, not and if/then/else", () => {
+    const conditional: JsonSchema = {
+      allOf: [{ type: "object" }, { not: { required: ["legacy"] } }],
+      if: { properties: { kind: { const: "http" } } },
+      then: { required: ["url"] },
+      else: { properties: { url: false } },
+      properties: { timeout: { anyOf: [{ type: "integer" }, { type: "string", format: "duration" }] } }
+    };
+
+    expect(validateJsonSchema({ kind: "http", url: "https://x", timeout: "PT5S" }, conditional)).toEqual([]);
+    expect(validateJsonSchema({ kind: "http", timeout: "5s", legacy: 1 }, conditional).map((i) => i.rule)).toEqual([
+      "json-schema/not",
+      "json-schema/required",
+      "json-schema/anyOf"
+    ]);
+    expect(validateJsonSchema({ kind: "tcp", url: "x" }, conditional)).toEqual([
+      expect.objectContaining({ path: "url", rule: "json-schema/false" })
+    ]);
+  });
+
+  it("should resolve anchors and stop on recursive references", () => {
+    const tree: JsonSchema = {
+      $defs: { node: { $anchor: "node", type: "object", properties: { children: { items: { $ref: "#node" } } } } },
+      $ref: "#node",
+      anyOf: [{ $ref: "#" }, true]
+    };
+
+    expect(validateJsonSchema({ children: [{ children: [] }] }, tree)).toEqual([]);
+    expect(validateJsonSchema({ children: [5] }, tree)).toEqual([
+      expect.objectContaining({ path: "children[0]", rule: "json-schema/type" })
+    ]);
+    expect(validateJsonSchema({}, { $ref: "#/$defs/missing" })).toEqual([
+      expect.objectContaining({ path: "$file", rule: "json-schema/ref" })
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "@jest/globals";
+import { parseToml, TomlSyntaxError } from "../src/loaders/toml-parser";
+
+describe("parseToml", () => {
+  it("should parse tables, arrays of tables and dotted keys", () => {
+    const { value } = parseToml(
+      [
+        "name = \"test-config\"",
+        "version = '1.0.0'",
+        "",
+        "[rules.timeout]",
+        "max = 30",
+        "retry.backoff = 1.5",
+        "",
+        "[[rules.targets]]",
+        "name = \"api\"",
+        "",
+        "[[rules.targets]]",
+        "name = \"worker\"",
+        "weight = { value = 0.5, unit = \"ratio\" }"
+      ].join("\n")
+    );
+
+    expect(value).toEqual({
+      name: "test-config",
+      version: "1.0.0",
+      rules: {
+        timeout: { max: 30, retry: { backoff: 1.5 } },
+        targets: [{ name: "api" }, { name: "worker", weight: { value: 0.5, unit: "ratio" } }]
+      }
+    });
+  });
+
+  it("should parse every scalar form", () => {
+    const { value } = parseToml(
+      [
+        "a = 1_000",
+        "b = 0xff",
+        "c = 0o17",
+        "d = 0b101",
+        "e = -1.5e3",
+        "f = -inf",
+        'g = "tab\\tquote\\" \\u00e9"',
+        "h = 'C:\\path'",
+        'i = """',
+        "one \\",
+        "  two\"\"\"\"",
+        "j = '''",
+        "raw\\n'''",
+        "k = 1979-05-27T07:32:00Z",
+        "l = [1, 2, # comment",
+        "  3,]"
+      ].join("\n")
+    );
+
+    expect(value).toEqual({
+      a: 1000,
+      b: 255,
+      c: 15,
+      d: 5,
+      e: -1500,
+      f: -Infinity,
+      g: 'tab\tquote" é',
+      h: "C:\\path",
+      i: 'one two"',
+      j: "raw\\n",
+      k: "1979-05-27T07:32:00Z",
+      l: [1, 2, 3]
+    });
+  });
+
+  it("should record key and value locations", () => {
+    const { locations } = parseToml('name = "x"\n\n[rules.timeout]\nmax = 30\n');
+    expect(locations.get("name")?.value).toMatchObject({ line: 1, column: 8, endColumn: 11 });
+    expect(locations.get("rules.timeout")).toMatchObject({
+      key: { line: 3, column: 8 },
+      value: { line: 3, column: 1, endColumn: 16 }
+    });
+    expect(locations.get("rules.timeout.max")?.key).toMatchObject({ line: 4, column: 1 });
+  });
+
+  it.each([
+    ["a = 1\na = 2", /line 2, column 1: Duplicate key "a"/],
+    ["[a]\nx = 1\n[a]", /line 3, column 2: Table "a" is already defined/],
+    ["a = { b = 1 }\n[a.c]", /line 2, column 2: Cannot define a table inside "a"/],
+    ["a.b = 1\n[a]", /line 2, column 2: Table "a" is already defined/],
+    ["a = [1, 2", /line 1, column 5: Unterminated array/],
+    ["a = 1 b = 2", /line 1, column 7: Expected a newline/],
+    ["a = 01", /Invalid value '01'/]
+  ])("should reject %j", (content, message) => {
+    expect(() => parseToml(content)).toThrow(TomlSyntaxError);
+    expect(() => parseToml(content)).toThrow(message);
+  });
+});
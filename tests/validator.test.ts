@@ -1,10 +1,32 @@
-import { describe, it, expect, beforeEach } from "@jest/globals";
+import { describe, it, expect, beforeEach, afterAll } from "@jest/globals";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
 import { HelixValidator } from "../src/validator";
-import { HelixConfig } from "../src/types";
+import { resolveExtends } from "../src/loaders/config-extends";
+import { GitSource } from "../src/loaders/git-source";
+import { Baseline } from "../src/utils/baseline";
+import { unifiedDiff } from "../src/utils/diff";
+import { ConfigResolver } from "../src/utils/config-resolver";
+import { Logger } from "../src/utils/logger";
+import { ConfigLoader, HelixConfig, ValidationIssue } from "../src/types";
+
+const tempDir = mkdtempSync(path.join(tmpdir(), "helix-validator-"));
+
+function writeConfig(name: string, content: string): string {
+  const filePath = path.join(tempDir, name);
+  writeFileSync(filePath, content);
+  return filePath;
+}
 
 describe("HelixValidator", () => {
   let validator: HelixValidator;
 
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
   beforeEach(() => {
     validator = new HelixValidator({
       format: "text",
@@ -97,6 +119,54 @@ describe("HelixValidator", () => {
       )).toBe(true);
     });
 
+    it("should apply severity overrides and drop rules turned off", () => {
+      const overriding = new HelixValidator({
+        severities: { "schema/version-semver": "error", "ruleset/deprecated-pattern": "off" }
+      });
+
+      const result = overriding.validateConfig({ name: "overrides", version: "1.0", rules: { legacyMode: true } });
+      expect(result.ok).toBe(false);
+      expect(result.issues.map(({ rule, severity }) => ({ rule, severity }))).toEqual([
+        { rule: "schema/version-semver", severity: "error" }
+      ]);
+      expect(result.summary).toContain("1 error");
+    });
+
+    it("should check the values of known rules against their declared shapes", () => {
+      const config: HelixConfig = {
+        name: "typed",
+        rules: {
+          allowParallel: "true",
+          retry: { enabled: "yes", priority: -4, jitter: true },
+          "access-control": { enabled: true, mode: "block" },
+          custom: { anything: 1 }
+        }
+      };
+
+      const result = validator.validateConfig(config);
+      expect(result.ok).toBe(false);
+      expect(result.issues.map(({ path, rule }) => ({ path, rule }))).toEqual([
+        { path: "rules.allowParallel", rule: "ruleset/rule-type" },
+        { path: "rules.retry.enabled", rule: "ruleset/rule-type" },
+        { path: "rules.retry.priority", rule: "ruleset/rule-range" },
+        { path: "rules.retry.jitter", rule: "ruleset/rule-unknown-field" },
+        { path: "rules.access-control.mode", rule: "ruleset/rule-range" },
+        { path: "rules.access-control.targets", rule: "ruleset/rule-missing-field" }
+      ]);
+      expect(result.issues[2]?.message).toBe('Field "priority" of rule "retry" must be between 0 and 100, got -4.');
+    });
+
+    it("should accept rule definitions added to the catalog", () => {
+      const typed = new HelixValidator({
+        ruleCatalog: {
+          custom: { kind: "object", description: "Custom rule", fields: { level: { kind: "integer", max: 3 } } }
+        }
+      });
+
+      const result = typed.validateConfig({ name: "typed", rules: { custom: { level: 5 } } });
+      expect(result.issues).toEqual([expect.objectContaining({ path: "rules.custom.level", rule: "ruleset/rule-range" })]);
+    });
+
     it("should enforce strict mode", () => {
       const strictValidator = new HelixValidator({
         format: "text",
@@ -138,6 +208,977 @@ describe("HelixValidator", () => {
     });
   });
 
+  describe("validateFile", () => {
+    it("should load YAML configs by extension", async () => {
+      const file = writeConfig(
+        "config.yaml",
+        "name: yaml-config\nversion: 1.0.0\nrules:\n  rule1:\n    enabled: true\n"
+      );
+
+      const result = await validator.validateFile(file);
+      expect(result.ok).toBe(true);
+      expect(result.issues).toEqual([]);
+    });
+
+    it("should load TOML configs and locate their issues", async () => {
+      const file = writeConfig("helix.toml", 'name = "toml-config"\nversion = "1.0"\n\n[rules.rule1]\nenabled = true\n');
+
+      const result = await validator.validateFile(file);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ rule: "schema/version-semver", file, line: 2, column: 11 })
+      ]);
+    });
+
+    it("should report names that are not strings", async () => {
+      const file = writeConfig("numeric-name.yaml", "name: 5\nversion: 1.0.0\nrules:\n  rule1: true\n");
+
+      const result = await validator.validateFile(file);
+      expect(result.issues).toEqual([expect.objectContaining({ path: "name", rule: "schema/name-type", line: 1 })]);
+    });
+
+    it("should validate each YAML document separately", async () => {
+      const file = writeConfig(
+        "bundle.yaml",
+        ["name: api", "rules:", "  r: 1", "---", "name: worker", "version: 1.0.0", "---", "rules:", "  r: 1", "---", ""].join("\n")
+      );
+
+      const result = await validator.validateFile(file);
+      expect(result.ok).toBe(false);
+      expect(result.documents?.map((document) => document.ok)).toEqual([true, false, false]);
+      expect(result.documents?.[1]?.issues).toEqual([
+        expect.objectContaining({ rule: "schema/rules-required", document: 1, line: 5, column: 1 })
+      ]);
+      expect(result.issues).toContainEqual(
+        expect.objectContaining({ rule: "schema/name-required", document: 2, line: 8 })
+      );
+    });
+
+    it("should sniff the format of extensionless files", async () => {
+      const yamlFile = writeConfig("helixrc", "name: sniffed\nrules:\n  rule1: {}\n");
+      const jsonFile = writeConfig("helixrc-json", '{"name": "sniffed", "rules": {"rule1": {}}}');
+      const tomlFile = writeConfig("helixrc-toml", '# sniffed\nname = "sniffed"\n[rules]\nrule1 = "on: yes"\n');
+
+      expect((await validator.validateFile(yamlFile)).ok).toBe(true);
+      expect((await validator.validateFile(jsonFile)).ok).toBe(true);
+      expect((await validator.validateFile(tomlFile)).ok).toBe(true);
+    });
+
+    it("should report YAML syntax errors as load errors", async () => {
+      const file = writeConfig("broken.yml", "name: x\nrules: [a, b\n");
+
+      const result = await validator.validateFile(file);
+      expect(result.ok).toBe(false);
+      expect(result.issues[0]?.rule).toBe("io/load-error");
+      expect(result.issues[0]?.message).toMatch(/line 2/);
+    });
+
+    it("should accept comments and trailing commas in .jsonc files", async () => {
+      const file = writeConfig(
+        "config.jsonc",
+        [
+          "{",
+          "  // service name",
+          '  "name": "jsonc-config", /* inline */',
+          '  "rules": {',
+          '    "rule1": { "enabled": true, },',
+          "  },",
+          "}"
+        ].join("\n")
+      );
+
+      const result = await validator.validateFile(file);
+      expect(result.ok).toBe(true);
+    });
+
+    it("should only allow JSONC in .json files when opted in", async () => {
+      const file = writeConfig("commented.json", '{\n  // note\n  "name": "x", "rules": {"a": 1},\n}');
+
+      const strictJson = await validator.validateFile(file);
+      expect(strictJson.ok).toBe(false);
+      expect(strictJson.issues[0]).toMatchObject({ rule: "parse/unexpected-token", line: 2, column: 3 });
+
+      const relaxed = await new HelixValidator({ jsonc: true }).validateFile(file);
+      expect(relaxed.ok).toBe(true);
+    });
+
+    it("should report positions of syntax errors in JSONC files", async () => {
+      const file = writeConfig("broken.jsonc", '{\n  /* a\n  b */ "name": "x",\n  "rules": {\n    "a": 1\n    "b": 2\n  }\n}');
+
+      const result = await validator.validateFile(file);
+      expect(result.issues[0]).toMatchObject({ rule: "parse/missing-comma", line: 6, column: 5 });
+    });
+
+    it("should attach source locations to issues in JSON files", async () => {
+      const file = writeConfig(
+        "located.json",
+        ['{', '  "name": "located",', '  "version": "1.0",', '  "rules": {', '    "bad key": true', '  }', '}'].join("\n")
+      );
+
+      const result = await validator.validateFile(file);
+      const semver = result.issues.find((i) => i.rule === "schema/version-semver");
+      expect(semver).toMatchObject({ file, line: 3, column: 14, endLine: 3, endColumn: 19 });
+
+      const keyFormat = result.issues.find((i) => i.rule === "ruleset/key-format");
+      expect(keyFormat).toMatchObject({ line: 5, column: 16 });
+      expect(result.summary).toContain(`(${file}:5:16)`);
+    });
+
+    it("should attach source locations to issues in YAML files", async () => {
+      const file = writeConfig(
+        "located.yaml",
+        ["version: 1.0.0", "rules:", "  legacy-mode:", "    enabled: true"].join("\n")
+      );
+
+      const result = await validator.validateFile(file);
+      // Multi-line values point at their key
+      const deprecated = result.issues.find((i) => i.rule === "ruleset/deprecated-pattern");
+      expect(deprecated).toMatchObject({ line: 3, column: 3, endLine: 3, endColumn: 14 });
+      // Missing keys point at the enclosing node
+      const nameRequired = result.issues.find((i) => i.rule === "schema/name-required");
+      expect(nameRequired).toMatchObject({ file, line: 1, column: 1 });
+    });
+
+    it("should report the position of syntax errors", async () => {
+      const file = writeConfig("syntax.json", '{\n  "name": "x",\n  "rules": {,}\n}');
+
+      const result = await validator.validateFile(file);
+      expect(result.issues[0]).toMatchObject({ rule: "parse/unexpected-token", file, line: 3, column: 13 });
+    });
+
+    it("should report every JSON syntax error and validate the rest", async () => {
+      const file = writeConfig(
+        "several.json",
+        ['{', '  "name": "several"', '  version: "1.0",', '  "rules": {"r": 1', '}'].join("\n")
+      );
+
+      const result = await validator.validateFile(file);
+      expect(result.ok).toBe(false);
+      expect(result.issues.filter((i) => i.rule?.startsWith("parse/"))).toEqual([
+        expect.objectContaining({ rule: "parse/missing-comma", file, line: 3, column: 3 }),
+        expect.objectContaining({ rule: "parse/unquoted-key", path: "version", line: 3, column: 3 }),
+        // The last brace closes "rules", leaving the root object open
+        expect.objectContaining({ rule: "parse/unclosed", path: "$file", line: 1, column: 1 })
+      ]);
+      // Values that could be parsed are still validated
+      expect(result.issues).toContainEqual(
+        expect.objectContaining({ rule: "schema/version-semver", path: "version", line: 3, column: 12 })
+      );
+    });
+
+    it("should report duplicate keys in JSON files with both locations", async () => {
+      const file = writeConfig("duplicate.json", '{\n  "name": "a",\n  "rules": {"r": 1},\n  "name": "b"\n}');
+
+      const result = await validator.validateFile(file);
+      expect(result.ok).toBe(false);
+      expect(result.issues[0]).toMatchObject({
+        path: "name",
+        rule: "parse/duplicate-key",
+        file,
+        line: 4,
+        column: 3,
+        related: [{ message: "First definition", file, line: 2, column: 3 }]
+      });
+    });
+
+    it("should report nested duplicate keys in YAML files", async () => {
+      const file = writeConfig(
+        "duplicate.yaml",
+        ["name: dup", "rules:", "  rule1:", "    enabled: true", "  rule1:", "    enabled: false"].join("\n")
+      );
+
+      const result = await validator.validateFile(file);
+      const duplicate = result.issues.find((i) => i.rule === "parse/duplicate-key");
+      expect(duplicate).toMatchObject({
+        path: "rules.rule1",
+        line: 5,
+        column: 3,
+        related: [{ line: 3, column: 3 }]
+      });
+    });
+
+    it("should run plugins and locate their issues", async () => {
+      const file = writeConfig("plugin.yaml", "name: plugin-config\nrules:\n  rule1: 5\n");
+      const plugin = {
+        name: "limits",
+        version: "1.0.0",
+        validate: (): ValidationIssue[] => [
+          { path: "rules.rule1", message: "Too high", severity: "warn", rule: "max" }
+        ]
+      };
+
+      const result = await new HelixValidator({ plugins: [plugin] }).validateFile(file);
+      expect(result.issues).toContainEqual(
+        expect.objectContaining({ rule: "limits/max", file, line: 3, column: 10 })
+      );
+    });
+
+    it("should merge extended configs and locate inherited issues", async () => {
+      const base = writeConfig(
+        "base.yaml",
+        ["name: base", 'version: "1.0"', "rules:", "  shared:", "    level: low", "    tags: [a]", "  bad key: true"].join("\n")
+      );
+      const file = writeConfig(
+        "child.json",
+        '{\n  "extends": "./base",\n  "name": "child",\n  "rules": {"shared": {"tags": ["b"]}, "own": 1}\n}'
+      );
+
+      const result = await validator.validateFile(file);
+      const semver = result.issues.find((i) => i.rule === "schema/version-semver");
+      expect(semver).toMatchObject({ file: base, line: 2, column: 10 });
+      const keyFormat = result.issues.find((i) => i.rule === "ruleset/key-format");
+      expect(keyFormat).toMatchObject({ file: base, line: 7, column: 12 });
+      expect(result.issues.filter((i) => i.rule.startsWith("extends/"))).toEqual([]);
+    });
+
+    it("should let the extending file and later bases take precedence", async () => {
+      const bases: Record<string, HelixConfig> = {
+        [writeConfig("prec-a.json", "{}")]: { name: "a", rules: { r: { x: 1, y: 1, z: [1] } }, metadata: { team: "a" } },
+        [writeConfig("prec-b.json", "{}")]: { name: "b", rules: { r: { y: 2, z: [2] } } }
+      };
+
+      const parsed = await resolveExtends(
+        path.join(tempDir, "prec.json"),
+        { config: { extends: ["prec-a", "prec-b"], rules: { r: { x: 3 } } }, format: "json" },
+        {
+          resolver: new ConfigResolver(new Logger({ level: "error" })),
+          load: async (file) => ({ config: bases[file] ?? {}, format: "json" })
+        }
+      );
+
+      expect(parsed.config).toEqual({
+        name: "b",
+        rules: { r: { x: 3, y: 2, z: [2] } },
+        metadata: { team: "a" }
+      });
+    });
+
+    it("should report circular and missing extends", async () => {
+      writeConfig("cycle-a.yaml", "extends: cycle-b.yaml\nname: a\nrules:\n  r: 1\n");
+      const file = writeConfig("cycle-b.yaml", "extends:\n  - cycle-a.yaml\n  - missing.yaml\nname: b\n");
+
+      const result = await validator.validateFile(file);
+      expect(result.ok).toBe(false);
+      expect(result.issues).toContainEqual(
+        expect.objectContaining({ rule: "extends/cycle", file: path.join(tempDir, "cycle-a.yaml"), line: 1 })
+      );
+      expect(result.issues).toContainEqual(
+        expect.objectContaining({ rule: "extends/not-found", path: "extends[1]", file, line: 3, column: 5 })
+      );
+    });
+
+    it("should interpolate environment variables and locate unset ones", async () => {
+      const file = writeConfig(
+        "env.yaml",
+        ['name: "svc-${REGION}"', "rules:", "  db:", "    url: ${DB_URL:-localhost}", "    token: x-${TOKEN:?set TOKEN}"].join("\n")
+      );
+      const envValidator = new HelixValidator({ interpolateEnv: true, env: { REGION: "eu" } });
+
+      const result = await envValidator.validateFile(file);
+      expect(result.issues).toEqual([
+        expect.objectContaining({
+          path: "rules.db.token",
+          severity: "error",
+          rule: "env/unset-variable",
+          file,
+          line: 5,
+          column: 14,
+          endColumn: 33
+        })
+      ]);
+      expect(result.issues[0]?.message).toContain("set TOKEN");
+    });
+
+    it("should decode BOM-prefixed UTF-8 and UTF-16 files", async () => {
+      const json = '{"name": "bom", "rules": {"r": 1}}';
+      const utf8 = writeConfig("bom.json", "\uFEFF" + json);
+      const utf16le = path.join(tempDir, "utf16le.json");
+      writeFileSync(utf16le, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(json, "utf16le")]));
+      const utf16be = path.join(tempDir, "utf16be.yaml");
+      writeFileSync(
+        utf16be,
+        Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from("name: be\nrules:\n  r: 1\n", "utf16le").swap16()])
+      );
+
+      for (const file of [utf8, utf16le, utf16be]) {
+        expect((await validator.validateFile(file)).issues).toEqual([]);
+      }
+    });
+
+    it("should report invalid UTF-8 with its byte offset", async () => {
+      const file = path.join(tempDir, "invalid.yaml");
+      writeFileSync(file, Buffer.concat([Buffer.from("name: ok\nrules:\n  r: caf"), Buffer.from([0xc3, 0x28])]));
+
+      const result = await validator.validateFile(file);
+      expect(result.ok).toBe(false);
+      expect(result.issues[0]).toMatchObject({ rule: "io/invalid-encoding", file, line: 3, column: 9 });
+      expect(result.issues[0]?.message).toContain("byte offset 24");
+      expect(result.issues[0]?.message).toContain("Invalid UTF-8 continuation byte 0x28");
+
+      const truncated = path.join(tempDir, "truncated.yaml");
+      writeFileSync(truncated, Buffer.concat([Buffer.from("name: ok\nrules:\n  r: caf"), Buffer.from([0xc3])]));
+      const message = (await validator.validateFile(truncated)).issues[0]?.message;
+      expect(message).toContain("byte offset 24");
+      expect(message).toContain("Truncated UTF-8 sequence");
+    });
+
+    it("should use custom loaders registered through options", async () => {
+      const iniLoader: ConfigLoader = {
+        format: "ini",
+        extensions: [".ini"],
+        parse: (content) => {
+          const rules: Record<string, unknown> = {};
+          for (const line of content.split("\n").filter(Boolean)) {
+            const [key, value] = line.split("=");
+            rules[key ?? ""] = value;
+          }
+          return { config: { name: "ini-config", rules }, format: "ini" };
+        }
+      };
+      const file = writeConfig("config.ini", "rule1=on\nrule2=off\n");
+
+      const result = await new HelixValidator({ loaders: [iniLoader] }).validateFile(file);
+      expect(result.ok).toBe(true);
+    });
+  });
+
+  describe("validateText", () => {
+    it("should detect the format from the filename and report it", async () => {
+      const result = await validator.validateText("name: piped\nversion: 1.0\nrules:\n  r: 1\n", {
+        filename: "piped.yaml"
+      });
+      expect(result.issues).toEqual([
+        expect.objectContaining({ rule: "schema/version-type", file: "piped.yaml", line: 2, column: 10 })
+      ]);
+    });
+
+    it("should report parse errors for an explicit format", async () => {
+      const result = await validator.validateText('{"name": "x",', { format: "json" });
+      expect(result.ok).toBe(false);
+      expect(result.issues[0]).toMatchObject({ rule: "parse/unclosed", file: "<stdin>", line: 1, column: 1 });
+    });
+  });
+
+  describe("JSON Schema", () => {
+    it("should apply a schema file to the config and locate each violation", async () => {
+      const schema = writeConfig(
+        "helix.schema.yaml",
+        [
+          "type: object",
+          "properties:",
+          "  rules:",
+          "    properties:",
+          "      timeout:",
+          "        type: object",
+          "        properties:",
+          "          seconds: { type: integer, minimum: 1 }"
+        ].join("\n")
+      );
+      const file = writeConfig(
+        "schema-checked.json",
+        ['{', '  "name": "checked",', '  "rules": {', '    "timeout": {"seconds": 0}', '  }', '}'].join("\n")
+      );
+
+      const result = await new HelixValidator({ schema }).validateFile(file);
+      expect(result.ok).toBe(false);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ path: "rules.timeout.seconds", rule: "json-schema/minimum", file, line: 4, column: 28 })
+      ]);
+    });
+
+    it("should apply schemas to individual rules", () => {
+      const validator = new HelixValidator({
+        ruleSchemas: { backoff: { type: "object", required: ["attempts"] }, unused: false }
+      });
+
+      const result = validator.validateConfig({ name: "per-rule", rules: { backoff: {} } });
+      expect(result.issues).toEqual([
+        expect.objectContaining({ path: "rules.backoff.attempts", rule: "json-schema/required" })
+      ]);
+    });
+
+    it("should report schema files that cannot be loaded", () => {
+      const missing = path.join(tempDir, "missing.schema.json");
+
+      const result = new HelixValidator({ schema: missing }).validateConfig({ name: "x", rules: { a: 1 } });
+      expect(result.issues).toEqual([
+        expect.objectContaining({ rule: "json-schema/load-error", file: missing })
+      ]);
+    });
+
+    it("should report malformed schema files instead of applying them in part", () => {
+      const broken = writeConfig("broken.schema.json", '{ "type": "object", "required": ["version"');
+
+      const result = new HelixValidator({ schema: broken }).validateConfig({ name: "x", rules: { a: 1 } });
+      expect(result.issues).toEqual([
+        expect.objectContaining({ rule: "json-schema/load-error", file: broken, severity: "error" })
+      ]);
+    });
+  });
+
+  describe("rulesets", () => {
+    const config: HelixConfig = { name: "admin", rules: { legacyMode: {}, LegacyMode: true } };
+
+    it("should apply a registered ruleset extending a built-in one", () => {
+      const validator = new HelixValidator({
+        ruleset: "ci",
+        rulesets: [
+          {
+            name: "ci",
+            extends: "strict",
+            checks: {
+              "ruleset/reserved-name": "off",
+              "ruleset/duplicate-rule": "error",
+              "ruleset/deprecated-pattern": "warn"
+            }
+          }
+        ]
+      });
+
+      const result = validator.validateConfig(config);
+      expect(result.issues.map(({ path, severity, rule }) => ({ path, severity, rule }))).toEqual([
+        { path: "rules.legacymode", severity: "error", rule: "ruleset/duplicate-rule" },
+        { path: "rules.legacyMode", severity: "warn", rule: "ruleset/deprecated-pattern" },
+        { path: "rules.LegacyMode", severity: "warn", rule: "ruleset/deprecated-pattern" },
+        { path: "rules.legacyMode", severity: "warn", rule: "ruleset/strict-empty-value" }
+      ]);
+    });
+
+    it("should load rulesets from a rulesets file", () => {
+      const rulesetsFile = writeConfig(
+        "rulesets.yaml",
+        [
+          "rulesets:",
+          "  quiet:",
+          "    description: Only reserved names",
+          "    checks:",
+          "      ruleset/reserved-name: warn",
+          "  quieter:",
+          "    extends: quiet",
+          "    checks:",
+          "      ruleset/reserved-name: { options: { names: [root] } }"
+        ].join("\n")
+      );
+
+      const quiet = new HelixValidator({ rulesetsFile, ruleset: "quiet" }).validateConfig(config);
+      expect(quiet.ok).toBe(true);
+      expect(quiet.issues).toEqual([
+        expect.objectContaining({ path: "name", severity: "warn", rule: "ruleset/reserved-name" })
+      ]);
+      expect(new HelixValidator({ rulesetsFile, ruleset: "quieter" }).validateConfig(config).issues).toEqual([]);
+    });
+
+    it("should enforce the metadata contract configured by a ruleset", () => {
+      const validator = new HelixValidator({
+        ruleset: "deploy",
+        rulesets: [
+          {
+            name: "deploy",
+            extends: "default",
+            checks: {
+              "metadata/missing-field": { options: { fields: ["owner", "team", "tier"] } },
+              "metadata/type": { options: { fields: { owner: "string" } } },
+              "metadata/enum": { options: { fields: { tier: ["critical", "standard"] } } },
+              "metadata/pattern": { severity: "warn", options: { fields: { contact: "^[^@\\s]+@[^@\\s]+$" } } }
+            }
+          }
+        ]
+      });
+
+      const result = validator.validateConfig({
+        name: "service",
+        rules: { allowParallel: true },
+        metadata: { owner: 42, team: "", tier: "gold", contact: "ops at example.com" }
+      });
+      expect(result.issues.map(({ path, severity, rule }) => ({ path, severity, rule }))).toEqual([
+        { path: "metadata.team", severity: "error", rule: "metadata/missing-field" },
+        { path: "metadata.owner", severity: "error", rule: "metadata/type" },
+        { path: "metadata.tier", severity: "error", rule: "metadata/enum" },
+        { path: "metadata.contact", severity: "warn", rule: "metadata/pattern" }
+      ]);
+      expect(result.issues[2]?.message).toBe('Metadata field "tier" must be one of "critical", "standard", got "gold".');
+
+      // Configs without metadata miss every required field
+      const bare = validator.validateConfig({ name: "service", rules: { allowParallel: true } });
+      expect(bare.ok).toBe(false);
+      expect(bare.issues.map(({ path, rule }) => ({ path, rule }))).toEqual([
+        { path: "metadata.owner", rule: "metadata/missing-field" },
+        { path: "metadata.team", rule: "metadata/missing-field" },
+        { path: "metadata.tier", rule: "metadata/missing-field" }
+      ]);
+
+      // The default ruleset has an empty contract
+      expect(new HelixValidator().validateConfig({ name: "service", rules: { allowParallel: true } }).issues).toEqual([]);
+      expect(
+        () =>
+          new HelixValidator({
+            ruleset: "bad",
+            rulesets: [{ name: "bad", checks: { "metadata/type": { options: { fields: { owner: "text" } } } } }]
+          })
+      ).toThrow('Ruleset "bad" configures check "metadata/type" with invalid options: field "owner" has unknown type "text"');
+    });
+
+    it("should reject unknown rulesets, unknown checks and extends cycles", () => {
+      expect(() => new HelixValidator({ ruleset: "nope" })).toThrow(
+        'Unknown ruleset "nope". Available rulesets: default, strict'
+      );
+      expect(
+        () => new HelixValidator({ ruleset: "typo", rulesets: [{ name: "typo", checks: { "ruleset/max-rule": "warn" } }] })
+      ).toThrow('Ruleset "typo" configures unknown check "ruleset/max-rule"');
+      expect(
+        () =>
+          new HelixValidator({
+            ruleset: "a",
+            rulesets: [
+              { name: "a", extends: "b" },
+              { name: "b", extends: ["default", "a"] }
+            ]
+          })
+      ).toThrow("Circular ruleset extends: a -> b -> a");
+    });
+  });
+
+  describe("policies", () => {
+    it("should report values failing policy assertions, conditions and requirements", () => {
+      const validator = new HelixValidator({
+        policies: [
+          { id: "max-timeout", select: "rules.*.timeout", assert: { lte: 300 } },
+          {
+            id: "audit-in-prod",
+            when: { path: "metadata.env", eq: "prod" },
+            select: "rules.audit.enabled",
+            required: true,
+            assert: { eq: true },
+            message: "Production configs must enable auditing",
+            severity: "warn"
+          },
+          { id: "no-debug", select: "$.rules.**.debug", forbidden: true },
+          { id: "hosts", select: "rules.hosts[*]", assert: { matches: "^[a-z.]+$" }, message: "{path}: bad host {value}" }
+        ]
+      });
+
+      const result = validator.validateConfig({
+        name: "service",
+        rules: {
+          api: { timeout: 500, debug: true },
+          worker: { timeout: 60, options: { debug: false } },
+          hosts: ["example.com", "Bad_Host"]
+        },
+        metadata: { env: "prod" }
+      });
+      expect(result.issues.map(({ path, message, severity, rule }) => ({ path, message, severity, rule }))).toEqual([
+        {
+          path: "rules.api.timeout",
+          message: "rules.api.timeout must be at most 300, got 500.",
+          severity: "error",
+          rule: "policy/max-timeout"
+        },
+        {
+          path: "rules.audit",
+          message: "Production configs must enable auditing",
+          severity: "warn",
+          rule: "policy/audit-in-prod"
+        },
+        { path: "rules.api.debug", message: "rules.api.debug is not allowed.", severity: "error", rule: "policy/no-debug" },
+        {
+          path: "rules.worker.options.debug",
+          message: "rules.worker.options.debug is not allowed.",
+          severity: "error",
+          rule: "policy/no-debug"
+        },
+        { path: "rules.hosts[1]", message: 'rules.hosts[1]: bad host "Bad_Host"', severity: "error", rule: "policy/hosts" }
+      ]);
+
+      const disabled = validator.validateConfig({
+        name: "service",
+        rules: { audit: { enabled: false } },
+        metadata: { env: "prod" }
+      });
+      expect(disabled.issues).toEqual([
+        expect.objectContaining({ path: "rules.audit.enabled", rule: "policy/audit-in-prod" })
+      ]);
+
+      const staging = validator.validateConfig({ name: "service", rules: { x: 1 }, metadata: { env: "staging" } });
+      expect(staging.issues).toEqual([]);
+    });
+
+    it("should load policies from a policy file and reject malformed ones", () => {
+      const policyFile = writeConfig(
+        "policies.yaml",
+        ["policies:", "  - id: named-version", "    select: version", "    required: true"].join("\n")
+      );
+      const result = new HelixValidator({ policyFile }).validateConfig({ name: "service", rules: { a: 1 } });
+      expect(result.issues).toEqual([expect.objectContaining({ path: "version", rule: "policy/named-version" })]);
+
+      expect(() => new HelixValidator({ policies: [{ id: "x", select: "rules.*", assert: { below: 3 } }] })).toThrow(
+        'Policy "x": assert: unknown comparison "below"'
+      );
+      expect(() => new HelixValidator({ policies: [{ id: "y", select: "rules[*]", required: true }] })).toThrow(
+        'Policy "y": required needs a selector ending in a key'
+      );
+      const broken = writeConfig(
+        "broken-policies.json",
+        JSON.stringify({ policies: [{ id: "z", select: "rules..a", forbidden: true }] })
+      );
+      expect(() => new HelixValidator({ policyFile: broken })).toThrow(
+        `${broken}: Policy "z": invalid selector "rules..a": empty key`
+      );
+    });
+  });
+
+  describe("deprecations", () => {
+    const validator = new HelixValidator({
+      deprecations: [
+        { key: "cache-ttl", since: "2.3", replacement: "cache.ttl", removedIn: "3.0" },
+        { pattern: "^retry-(\\w+)$", since: "2.1", replacement: "retry.$1", message: "See the retry docs." }
+      ]
+    });
+
+    it("should report registered deprecations with their replacement", () => {
+      const result = validator.validateConfig({
+        name: "service",
+        version: "2.4.0",
+        rules: { "cache-ttl": 60, "retry-attempts": 3, "gold-tier": true, threshold: 5, oldClients: true }
+      });
+      expect(result.issues.map(({ path, message, severity }) => ({ path, message, severity }))).toEqual([
+        {
+          path: "rules.cache-ttl",
+          message: 'Rule "cache-ttl" is deprecated since 2.3, use "cache.ttl". It will be removed in 3.0.',
+          severity: "info"
+        },
+        {
+          path: "rules.retry-attempts",
+          message: 'Rule "retry-attempts" is deprecated since 2.1, use "retry.attempts". See the retry docs.',
+          severity: "info"
+        },
+        {
+          path: "rules.oldClients",
+          message: expect.stringMatching(/^Rule "oldClients" is deprecated\. Rules with a legacy/),
+          severity: "info"
+        }
+      ]);
+      expect(result.issues[0]?.fix?.edits).toEqual([{ kind: "rename-key", path: "rules.cache-ttl", key: "cache.ttl" }]);
+    });
+
+    it("should escalate to an error once the config version reaches the removal", () => {
+      const result = validator.validateConfig({ name: "service", version: "3.0.1", rules: { "cache-ttl": 60 } });
+      expect(result.ok).toBe(false);
+      expect(result.issues).toEqual([
+        expect.objectContaining({
+          message: 'Rule "cache-ttl" is deprecated since 2.3, use "cache.ttl". It was removed in 3.0.',
+          severity: "error"
+        })
+      ]);
+      expect(() => new HelixValidator({ deprecations: [{ key: "x", removedIn: "soon" }] })).toThrow(
+        'Invalid deprecation version "soon" for x'
+      );
+    });
+  });
+
+  describe("suppression comments", () => {
+    it("should suppress issues on the next line or the same line in YAML", async () => {
+      const file = writeConfig(
+        "suppressed.yaml",
+        [
+          "name: suppressed",
+          'version: "1.0" # helix-disable-line',
+          "rules:",
+          "  # helix-disable-next-line ruleset/deprecated-pattern -- kept for old clients",
+          "  oldClients: true",
+          "  legacyMode: true"
+        ].join("\n")
+      );
+
+      const result = await validator.validateFile(file);
+      expect(result.issues).toEqual([expect.objectContaining({ rule: "ruleset/deprecated-pattern", line: 6 })]);
+      expect(result.suppressed).toEqual([
+        expect.objectContaining({ rule: "schema/version-semver", line: 2 }),
+        expect.objectContaining({ rule: "ruleset/deprecated-pattern", line: 5, reason: "kept for old clients" })
+      ]);
+      expect(result.summary).toContain("0 errors, 0 warnings, 1 info, 2 suppressed");
+    });
+
+    it("should honor comments in JSONC files and report unused suppressions", async () => {
+      const file = writeConfig(
+        "suppressed.jsonc",
+        [
+          "{",
+          '  "name": "suppressed",',
+          "  // helix-disable-next-line ruleset/key-format, ruleset/key-length",
+          '  "rules": { "bad key": true }, /* helix-disable-line */',
+          '  "version": "1.0.0" // helix-disable-line schema/version-semver',
+          "}"
+        ].join("\n")
+      );
+
+      const result = await new HelixValidator({ format: "json", reportUnusedSuppressions: true }).validateFile(file);
+      expect(result.suppressed).toEqual([expect.objectContaining({ rule: "ruleset/key-format", line: 4 })]);
+      expect(result.issues.map(({ rule, line, message }) => ({ rule, line, message }))).toEqual([
+        {
+          rule: "suppression/unused",
+          line: 3,
+          message: 'Unused helix-disable-next-line directive: no "ruleset/key-length" issues were reported on line 4.'
+        },
+        {
+          rule: "suppression/unused",
+          line: 4,
+          message: "Unused helix-disable-line directive: no issues were reported on line 4."
+        },
+        {
+          rule: "suppression/unused",
+          line: 5,
+          message: 'Unused helix-disable-line directive: no "schema/version-semver" issues were reported on line 5.'
+        }
+      ]);
+      expect(JSON.parse(result.summary).suppressed).toHaveLength(1);
+    });
+  });
+
+  describe("baseline", () => {
+    it("should report only new issues and flag fixed baseline entries", async () => {
+      const file = writeConfig(
+        "baselined.json",
+        '{\n  "name": "baselined",\n  "version": "1.0",\n  "rules": { "bad key": 1, "legacyMode": 2 }\n}'
+      );
+      const baselineFile = path.join(tempDir, "baseline.json");
+      const baseline = new Baseline({}, tempDir);
+      baseline.update(file, (await validator.validateFile(file)).issues);
+      await baseline.write(baselineFile);
+
+      // Lines move and one issue is fixed; another one is introduced
+      writeConfig(
+        "baselined.json",
+        '{\n\n  "name": "baselined",\n  "version": "1.0",\n  "rules": { "bad key": 1, "other key": 2 }\n}'
+      );
+      const result = await new HelixValidator({ baseline: baselineFile }).validateFile(file);
+      expect(result.baselined).toEqual([
+        expect.objectContaining({ rule: "schema/version-semver", line: 4 }),
+        expect.objectContaining({ rule: "ruleset/key-format", path: "rules.bad key" })
+      ]);
+      expect(result.issues.map(({ rule, path }) => ({ rule, path }))).toEqual([
+        { rule: "ruleset/key-format", path: "rules.other key" },
+        { rule: "baseline/fixed", path: "$file" }
+      ]);
+      expect(result.issues[1]?.message).toContain("(ruleset/deprecated-pattern) rules.legacyMode");
+    });
+
+    it("should keep the entries of other configs when updating", async () => {
+      const baselineFile = path.join(tempDir, "shared-baseline.json");
+      const baseline = new Baseline({}, tempDir);
+      baseline.update(path.join(tempDir, "a.json"), [{ path: "name", message: "x", severity: "error", rule: "r" }]);
+      baseline.update(path.join(tempDir, "b.json"), [{ path: "name", message: "y", severity: "error", rule: "r" }]);
+      baseline.update(path.join(tempDir, "b.json"), []);
+      await baseline.write(baselineFile);
+
+      const written = JSON.parse(readFileSync(baselineFile, "utf8"));
+      expect(Object.keys(written.files)).toEqual(["a.json"]);
+      expect(Baseline.read(baselineFile).size).toBe(1);
+    });
+  });
+
+  describe("fixFile", () => {
+    it("should fix JSON files keeping their formatting", async () => {
+      const file = writeConfig(
+        "fixable.json",
+        [
+          "{",
+          '  "name": "My_Service",',
+          '  "version": "1.2", // semver',
+          '  "rules": {',
+          '    "timeout": { "seconds": 5 },',
+          '    "bad key!": true,',
+          '    "Timeout": 1,',
+          '    "TIMEOUT": 2',
+          "  }",
+          "}"
+        ].join("\n")
+      );
+
+      const fix = await new HelixValidator({ jsonc: true }).fixFile(file);
+      expect(fix.output).toBe(
+        [
+          "{",
+          '  "name": "myservice",',
+          '  "version": "1.2.0", // semver',
+          '  "rules": {',
+          '    "timeout": { "seconds": 5 },',
+          '    "badkey": true',
+          "  }",
+          "}"
+        ].join("\n")
+      );
+      expect(fix.fixed.map((issue) => issue.rule)).toEqual([
+        "schema/name-format",
+        "schema/version-semver",
+        "ruleset/duplicate-rule",
+        "ruleset/key-format"
+      ]);
+      expect(fix.result.issues).toEqual([]);
+    });
+
+    it("should keep the encoding and byte order mark of the file", async () => {
+      const file = path.join(tempDir, "fixable-utf16.json");
+      writeFileSync(file, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('{ "name": "My App" }', "utf16le")]));
+
+      const fix = await validator.fixFile(file);
+      expect(fix).toMatchObject({ output: '{ "name": "myapp" }', encoding: "utf-16le", bom: true });
+
+      const invalid = path.join(tempDir, "fixable-invalid.json");
+      writeFileSync(invalid, Buffer.from([0x7b, 0xff, 0x7d]));
+      const broken = await validator.fixFile(invalid);
+      expect(broken.fixed).toEqual([]);
+      expect(broken.result.issues).toEqual([expect.objectContaining({ rule: "io/invalid-encoding" })]);
+    });
+
+    it("should fix YAML files and remove empty rules", async () => {
+      const file = writeConfig(
+        "fixable.yaml",
+        ["name: fixable", "version: 'v2'", "rules:", "  # kept", "  retry-policy: {}", "  other: { a: 1, b: {} }"].join("\n")
+      );
+
+      const fix = await new HelixValidator({ ruleset: "strict" }).fixFile(file);
+      expect(fix.output).toBe(["name: fixable", "version: '2.0.0'", "rules:", "  # kept", "  other: { a: 1, b: {} }"].join("\n"));
+      expect(fix.result.ok).toBe(true);
+      expect(unifiedDiff(fix.original, fix.output, "a/fixable.yaml", "b/fixable.yaml")).toBe(
+        [
+          "--- a/fixable.yaml",
+          "+++ b/fixable.yaml",
+          "@@ -1,6 +1,5 @@",
+          " name: fixable",
+          "-version: 'v2'",
+          "+version: '2.0.0'",
+          " rules:",
+          "   # kept",
+          "-  retry-policy: {}",
+          "   other: { a: 1, b: {} }",
+          "\\ No newline at end of file",
+          ""
+        ].join("\n")
+      );
+    });
+
+    it("should not replace environment placeholders", async () => {
+      const file = writeConfig(
+        "fixable-env.yaml",
+        ['name: "${APP}"', "version: '1.0'", "rules:", "  retries: 3"].join("\n")
+      );
+
+      const fix = await new HelixValidator({ interpolateEnv: true, env: { APP: "My App" } }).fixFile(file);
+      expect(fix.output).toBe(['name: "${APP}"', "version: '1.0.0'", "rules:", "  retries: 3"].join("\n"));
+      expect(fix.fixed.map((issue) => issue.rule)).toEqual(["schema/version-semver"]);
+      expect(fix.result.issues.map((issue) => issue.rule)).toEqual(["schema/name-format"]);
+    });
+
+    it("should print diffs that apply to the original file", async () => {
+      const dir = path.join(tempDir, "patches");
+      mkdirSync(dir, { recursive: true });
+      const contents = [
+        '{\n  "name": "My App",\n  "version": "1.0.0",\n  "rules": {}\n}\n',
+        '{\n  "name": "My App",\n  "version": "1.0.0",\n  "rules": {}\n}',
+        '{ "name": "My App" }'
+      ];
+
+      for (const content of contents) {
+        const file = path.join(dir, "config.json");
+        writeFileSync(file, content);
+        const fix = await validator.fixFile(file);
+        const diff = unifiedDiff(fix.original, fix.output, "a/config.json", "b/config.json");
+        execFileSync("git", ["apply", "-"], { cwd: dir, input: diff, stdio: "pipe" });
+        expect(readFileSync(file, "utf8")).toBe(fix.output);
+      }
+    });
+  });
+
+  describe("validateRevision", () => {
+    const repo = path.join(tempDir, "repo");
+    const git = (...args: string[]) =>
+      execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+        cwd: repo,
+        stdio: "pipe"
+      });
+
+    beforeEach(() => {
+      rmSync(repo, { recursive: true, force: true });
+      mkdirSync(path.join(repo, "config"), { recursive: true });
+      git("init", "-q");
+      writeFileSync(path.join(repo, "config/app.json"), '{\n  "name": "app",\n  "version": 1\n}');
+      git("add", ".");
+      git("commit", "-q", "-m", "initial");
+      writeFileSync(path.join(repo, "config/app.json"), '{\n  "name": "app",\n  "version": "1.0.0",\n  "rules": {}\n}');
+    });
+
+    it("should validate a file as committed at a revision", async () => {
+      const source = new GitSource({ rev: "HEAD", cwd: repo });
+
+      const result = await validator.validateRevision("config/app.json", source);
+      expect(result.ok).toBe(false);
+      expect(result.issues).toContainEqual(
+        expect.objectContaining({ rule: "schema/version-type", file: "HEAD:config/app.json", line: 3, column: 14 })
+      );
+      expect(result.summary).toContain("(HEAD:config/app.json:3:14)");
+    });
+
+    it("should validate a file as staged in the index", async () => {
+      git("add", "config/app.json");
+      writeFileSync(path.join(repo, "config/app.json"), "{");
+
+      const result = await validator.validateRevision("config/app.json", new GitSource({ staged: true, cwd: repo }));
+      expect(result.ok).toBe(true);
+    });
+
+    it("should report files missing at the revision", async () => {
+      const source = new GitSource({ rev: "HEAD", cwd: repo });
+
+      const result = await validator.validateRevision("config/missing.json", source);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ rule: "io/load-error", file: "HEAD:config/missing.json" })
+      ]);
+    });
+  });
+
+  describe("input limits", () => {
+    it("should refuse files larger than the size limit before parsing them", async () => {
+      const file = writeConfig("large.json", `{"name": "${"x".repeat(200)}"}`);
+
+      const result = await new HelixValidator({ limits: { maxFileSize: 100 } }).validateFile(file);
+      expect(result.ok).toBe(false);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ rule: "limits/file-size", path: "$file", file })
+      ]);
+    });
+
+    it("should stop parsing deeply nested input at the depth limit", async () => {
+      const depth = 100_000;
+      const content = `{"rules": {"r": ${"[".repeat(depth)}${"]".repeat(depth)}}}`;
+
+      for (const format of ["json", "yaml", "toml"]) {
+        const text = format === "toml" ? `rules = ${"[".repeat(depth)}${"]".repeat(depth)}` : content;
+        const result = await validator.validateText(text, { format });
+        expect(result.issues).toEqual([expect.objectContaining({ rule: "limits/depth", line: 1 })]);
+      }
+    });
+
+    it("should count keys reached through YAML aliases at every use", async () => {
+      const lines = ["a0: &a0 {k0: 1, k1: 2, k2: 3, k3: 4, k4: 5, k5: 6, k6: 7, k7: 8, k8: 9, k9: 10}"];
+      for (let level = 1; level <= 9; level++) {
+        const refs = Array.from({ length: 10 }, (_, i) => `r${i}: *a${level - 1}`).join(", ");
+        lines.push(`a${level}: &a${level} {${refs}}`);
+      }
+
+      const result = await validator.validateText(lines.join("\n"), { format: "yaml" });
+      expect(result.issues).toEqual([expect.objectContaining({ rule: "limits/keys" })]);
+    });
+
+    it("should report over-long strings at their position", async () => {
+      const result = await new HelixValidator({ limits: { maxStringLength: 8 } }).validateText(
+        '{\n  "name": "much too long",\n  "rules": {}\n}',
+        { filename: "long.json" }
+      );
+      expect(result.issues).toEqual([
+        expect.objectContaining({ rule: "limits/string-length", path: "name", file: "long.json", line: 2, column: 3 })
+      ]);
+    });
+  });
+
   describe("cache behavior", () => {
     it("should clear cache when requested", () => {
       validator.clearCache();
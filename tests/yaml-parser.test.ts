@@ -0,0 +1,149 @@
+import { describe, it, expect } from "@jest/globals";
+import { parseYaml, YamlSyntaxError } from "../src/loaders/yaml-parser";
+
+describe("parseYaml", () => {
+  it("should parse block mappings and sequences", () => {
+    const result = parseYaml(
+      [
+        "name: test-config",
+        "version: 1.0.0",
+        "rules:",
+        "  timeout: 30",
+        "  enabled: true",
+        "  targets:",
+        "    - api",
+        "    - worker",
+        "  nested:",
+        "  - name: a",
+        "    weight: 0.5",
+        "  - name: b",
+        "metadata: ~"
+      ].join("\n")
+    );
+
+    expect(result).toEqual({
+      name: "test-config",
+      version: "1.0.0",
+      rules: {
+        timeout: 30,
+        enabled: true,
+        targets: ["api", "worker"],
+        nested: [{ name: "a", weight: 0.5 }, { name: "b" }]
+      },
+      metadata: null
+    });
+  });
+
+  it("should parse flow collections spanning lines", () => {
+    const result = parseYaml('list: [a, "b c", {x: 1, "y":2}]\nmap: {\n  k: v,\n  n: [1, 2,],\n}\n');
+    expect(result).toEqual({
+      list: ["a", "b c", { x: 1, y: 2 }],
+      map: { k: "v", n: [1, 2] }
+    });
+  });
+
+  it("should resolve core schema scalars", () => {
+    const result = parseYaml(
+      "a: 0x1F\nb: 0o17\nc: -1.5e3\nd: .inf\ne: FALSE\nf: Null\ng: '007'\nh: 1.0.0\ni: !!str 42\n"
+    );
+    expect(result).toEqual({
+      a: 31,
+      b: 15,
+      c: -1500,
+      d: Infinity,
+      e: false,
+      f: null,
+      g: "007",
+      h: "1.0.0",
+      i: "42"
+    });
+  });
+
+  it("should handle quoted scalars and escapes", () => {
+    const result = parseYaml(
+      [
+        'double: "tab\\there \\u00e9 \\"q\\""',
+        "single: 'it''s # not a comment'",
+        'folded: "first',
+        "  second",
+        "",
+        '  third"'
+      ].join("\n")
+    );
+    expect(result).toEqual({
+      double: 'tab\there é "q"',
+      single: "it's # not a comment",
+      folded: "first second\nthird"
+    });
+  });
+
+  it("should handle literal and folded block scalars with chomping", () => {
+    const result = parseYaml(
+      [
+        "literal: |",
+        "  line one",
+        "    indented",
+        "  line three",
+        "folded: >-",
+        "  folded",
+        "  text",
+        "",
+        "  para",
+        "keep: |+",
+        "  kept",
+        "",
+        "last: plain",
+        "  continued # comment"
+      ].join("\n")
+    );
+    expect(result).toEqual({
+      literal: "line one\n  indented\nline three\n",
+      folded: "folded text\npara",
+      keep: "kept\n\n",
+      last: "plain continued"
+    });
+  });
+
+  it("should resolve anchors, aliases and merge keys", () => {
+    const result = parseYaml(
+      [
+        "base: &base",
+        "  timeout: 10",
+        "  retries: 3",
+        "service:",
+        "  <<: *base",
+        "  retries: 5",
+        "tags: &tags [a, b]",
+        "copy: *tags"
+      ].join("\n")
+    ) as Record<string, unknown>;
+
+    expect(result.service).toEqual({ timeout: 10, retries: 5 });
+    expect(result.copy).toEqual(["a", "b"]);
+  });
+
+  it("should ignore comments and document markers", () => {
+    const result = parseYaml("%YAML 1.2\n---\n# leading comment\nname: x # trailing\n...\n");
+    expect(result).toEqual({ name: "x" });
+  });
+
+  it("should return null for an empty stream", () => {
+    expect(parseYaml("# only a comment\n")).toBeNull();
+  });
+
+  it("should report syntax errors with line and column", () => {
+    const parse = () => parseYaml("name: x\nrules:\n  a: 1\n   b: 2\n");
+    expect(parse).toThrow(YamlSyntaxError);
+    try {
+      parse();
+    } catch (error) {
+      expect((error as YamlSyntaxError).line).toBe(4);
+      expect((error as YamlSyntaxError).column).toBe(5);
+    }
+  });
+
+  it("should reject unknown aliases and unterminated strings", () => {
+    expect(() => parseYaml("a: *missing\n")).toThrow(/Unknown alias "missing"/);
+    expect(() => parseYaml('a: "open\nb: c\n')).toThrow(/line 1, column 4: Unterminated/);
+  });
+});